@@ -1,38 +1,218 @@
-const CACHE_NAME = 'youtube-transcript-ai-v1';
-const urlsToCache = [
-  '/',
-  '/index.html',
-  '/styles.css',
-  '/main.js',
-  '/polyfills.js'
-];
+// App shell service worker.
+//
+// The Angular build emits hashed bundle names, so the bundles to precache are read from index.html:
+// each version of index.html and the scripts, stylesheets and icons it references are cached together
+// under a name derived from its content. The page is served from the current version; when a newer
+// index.html is deployed it is precached in the background and the page is told an update is
+// available, and it only becomes current once the user accepts.
+//
+// Only same-origin GET requests without credentials are handled. API calls (Scrape Creators, Gemini,
+// Together.ai and any configured provider) go straight to the network and are never cached. Of the
+// rest, only the shell and files whose names carry a build hash are cached; anything else is fetched
+// from the network every time, so a cache never fills with one-off or changing responses.
+
+const SHELL_CACHE_PREFIX = 'app-shell-';
+const META_CACHE = 'app-meta';
+const VERSIONS_KEY = '/__app-versions'; // { current, pending } shell versions
+const STATIC_ASSETS = ['/manifest.json', '/favicon.ico', '/favicon.svg', '/icon.svg'];
+const UPDATE_CHECK_INTERVAL_MS = 60 * 1000;
+// Bundles, lazy chunks and media named by the Angular build, e.g. chunk-5FQXJ7ZK.js
+const HASHED_ASSET_PATTERN = /-[A-Z0-9]{8}\.(?:js|css|woff2?|ttf|svg|png|jpe?g|gif|webp)$/;
+
+let lastUpdateCheck = 0;
 
 self.addEventListener('install', (event) => {
   event.waitUntil(
-    caches.open(CACHE_NAME)
-      .then((cache) => cache.addAll(urlsToCache))
-  );
-});
-
-self.addEventListener('fetch', (event) => {
-  event.respondWith(
-    caches.match(event.request)
-      .then((response) => {
-        return response || fetch(event.request);
-      })
+    installShell().then(() => self.skipWaiting())
   );
 });
 
 self.addEventListener('activate', (event) => {
   event.waitUntil(
-    caches.keys().then((cacheNames) => {
-      return Promise.all(
-        cacheNames.map((cacheName) => {
-          if (cacheName !== CACHE_NAME) {
-            return caches.delete(cacheName);
-          }
-        })
-      );
-    })
+    deleteUnusedCaches().then(() => self.clients.claim())
   );
 });
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin) {
+    return;
+  }
+  if (request.headers.has('Authorization') || request.headers.has('x-api-key')) {
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    // Every route (/, /history, /watch/...) is the same single-page app
+    event.respondWith(serveShell(request));
+    event.waitUntil(checkForUpdate(false));
+    return;
+  }
+
+  event.respondWith(serveAsset(request));
+});
+
+self.addEventListener('message', (event) => {
+  const type = event.data && event.data.type;
+  if (type === 'CHECK_FOR_UPDATE') {
+    event.waitUntil(checkForUpdate(true));
+  } else if (type === 'ACTIVATE_UPDATE') {
+    event.waitUntil(activateUpdate());
+  }
+});
+
+/**
+ * Precaches the deployed shell; it becomes current on a first install and pending otherwise
+ */
+async function installShell() {
+  const shell = await fetchShell();
+  const versions = await getVersions();
+  await precacheShell(shell);
+
+  if (!versions.current) {
+    await setVersions({ current: shell.version, pending: null });
+  } else if (shell.version !== versions.current) {
+    await setVersions({ current: versions.current, pending: shell.version });
+  }
+}
+
+/**
+ * Downloads index.html and lists the same-origin assets it references
+ */
+async function fetchShell() {
+  const response = await fetch('/index.html', { cache: 'no-cache' });
+  if (!response.ok) {
+    throw new Error(`index.html could not be loaded (${response.status})`);
+  }
+
+  const html = await response.text();
+  const assets = new Set(STATIC_ASSETS);
+  const pattern = /<(?:script|link)\b[^>]*?\b(?:src|href)="([^"]+)"/g;
+  let match;
+  while ((match = pattern.exec(html)) !== null) {
+    const url = new URL(match[1].replace(/&amp;/g, '&'), self.registration.scope);
+    if (url.origin === self.location.origin) {
+      assets.add(url.pathname + url.search);
+    }
+  }
+
+  return { html, version: await hashText(html), assets: [...assets] };
+}
+
+async function precacheShell(shell) {
+  const cache = await caches.open(SHELL_CACHE_PREFIX + shell.version);
+  await cache.addAll(shell.assets.map((asset) => new Request(asset, { cache: 'no-cache' })));
+  await cache.put('/index.html', new Response(shell.html, {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' }
+  }));
+}
+
+async function serveShell(request) {
+  const cache = await openCurrentShell();
+  const cached = cache && await cache.match('/index.html');
+  if (cached) {
+    return cached;
+  }
+  return fetch(request);
+}
+
+/**
+ * Cache first; hashed files missing from the shell, such as lazily loaded chunks, are added once fetched
+ */
+async function serveAsset(request) {
+  const cache = await openCurrentShell();
+  const cached = cache && await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+  const hashed = HASHED_ASSET_PATTERN.test(new URL(request.url).pathname);
+  if (cache && hashed && response.ok && response.type === 'basic') {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+/**
+ * Precaches a newer deployed shell and tells the open pages; throttled unless requested by a page
+ */
+async function checkForUpdate(force) {
+  if (!force && Date.now() - lastUpdateCheck < UPDATE_CHECK_INTERVAL_MS) {
+    return;
+  }
+  lastUpdateCheck = Date.now();
+
+  try {
+    const versions = await getVersions();
+    const shell = await fetchShell();
+    if (shell.version === versions.current) {
+      return;
+    }
+    if (shell.version !== versions.pending) {
+      await precacheShell(shell);
+      await setVersions({ current: versions.current, pending: shell.version });
+      await deleteUnusedCaches();
+    }
+    await notifyClients({ type: 'UPDATE_AVAILABLE' });
+  } catch (error) {
+    // Offline or mid-deploy; the next navigation tries again
+    console.warn('Update check failed:', error);
+  }
+}
+
+/**
+ * Makes the pending shell current and asks every open page to reload into it
+ */
+async function activateUpdate() {
+  const versions = await getVersions();
+  if (!versions.pending) {
+    return;
+  }
+  await setVersions({ current: versions.pending, pending: null });
+  await deleteUnusedCaches();
+  await notifyClients({ type: 'UPDATE_ACTIVATED' });
+}
+
+async function openCurrentShell() {
+  const versions = await getVersions();
+  return versions.current ? caches.open(SHELL_CACHE_PREFIX + versions.current) : null;
+}
+
+/**
+ * Removes caches of older shells and of earlier versions of this worker
+ */
+async function deleteUnusedCaches() {
+  const versions = await getVersions();
+  const keep = [versions.current, versions.pending]
+    .filter(Boolean)
+    .map((version) => SHELL_CACHE_PREFIX + version)
+    .concat(META_CACHE);
+  const names = await caches.keys();
+  await Promise.all(names.filter((name) => !keep.includes(name)).map((name) => caches.delete(name)));
+}
+
+async function getVersions() {
+  const cache = await caches.open(META_CACHE);
+  const response = await cache.match(VERSIONS_KEY);
+  return response ? response.json() : { current: null, pending: null };
+}
+
+async function setVersions(versions) {
+  const cache = await caches.open(META_CACHE);
+  await cache.put(VERSIONS_KEY, new Response(JSON.stringify(versions), {
+    headers: { 'Content-Type': 'application/json' }
+  }));
+}
+
+async function notifyClients(message) {
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach((client) => client.postMessage(message));
+}
+
+async function hashText(text) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].slice(0, 8).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
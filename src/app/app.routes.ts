@@ -1,3 +1,10 @@
 import { Routes } from '@angular/router';
+import { History } from './components/history/history';
 
-export const routes: Routes = [];
+export const routes: Routes = [
+  { path: 'history', component: History },
+  // Shown by the main view, which loads the video on navigation
+  { path: 'watch/:videoId', children: [] },
+  // PWA share target; redirected to /watch once the shared text is read
+  { path: 'share', children: [] }
+];
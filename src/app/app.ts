@@ -1,33 +1,64 @@
-import { Component, OnInit, OnDestroy, ChangeDetectorRef, signal } from '@angular/core';
+import { Component, OnInit, OnDestroy, ChangeDetectorRef, ElementRef, ViewChild, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { RouterOutlet } from '@angular/router';
-import { firstValueFrom } from 'rxjs';
-import { Api, TranscriptResponse } from './services/api';
+import { NavigationEnd, Router, RouterLink, RouterOutlet } from '@angular/router';
+import { Subscription, combineLatest, firstValueFrom, from } from 'rxjs';
+import { concatMap, filter } from 'rxjs/operators';
+import { Api, TranscriptItem, TranscriptResponse } from './services/api';
 import { Storage } from './services/storage';
-import { Summary } from './services/summary';
+import { Summary, SummaryProgress, SummaryResult, SummaryStreamUpdate, TranscriptChapter, TranscriptCitation, TranslationProgress } from './services/summary';
+import { LANGUAGES, getLanguageName } from './services/languages';
+import { Library } from './services/library';
+import { LLM_PROVIDER_DEFAULTS } from './services/llm-provider';
+import { TRANSCRIPT_PROVIDER_DEFAULTS } from './services/transcript-provider';
+import { EXPORT_FORMATS, Export, ExportFormat } from './services/export';
+import { Queue } from './services/queue';
+import { Pwa } from './services/pwa';
+import { AudioPlaylist, normalizeSpeechText, splitSentences, splitSpeechText } from './services/audio-playlist';
+import { SummaryTemplate, Templates } from './services/templates';
+import { abortWith, isApiError, missingKeyError } from './services/errors';
 import { Settings } from './components/settings/settings';
+import { Transcript } from './components/transcript/transcript';
+import { Chat } from './components/chat/chat';
+import { Player } from './components/player/player';
+import { QueuePanel } from './components/queue-panel/queue-panel';
+import { TemplateEditor } from './components/template-editor/template-editor';
+import { SummaryDetails } from './components/summary-details/summary-details';
+import { ProfileSwitcher } from './components/profile-switcher/profile-switcher';
+import { TranscriptUpload, UploadedTranscript } from './components/transcript-upload/transcript-upload';
 
 @Component({
   selector: 'app-root',
-  imports: [CommonModule, FormsModule, RouterOutlet, Settings],
+  imports: [CommonModule, FormsModule, RouterOutlet, RouterLink, Settings, Transcript, Chat, Player, QueuePanel, TemplateEditor, SummaryDetails, ProfileSwitcher, TranscriptUpload],
   templateUrl: './app.html',
   styleUrl: './app.css'
 })
 export class App implements OnInit, OnDestroy {
+  @ViewChild(Transcript) transcriptView?: Transcript;
+  @ViewChild(Player) playerView?: Player;
+  @ViewChild(Chat) chatView?: Chat;
+  @ViewChild('summaryText') summaryTextRef?: ElementRef<HTMLElement>;
   youtubeUrl: string = '';
   summaryLength: number = 50;
-  summaryStyle: string = 'essay';
+  summaryStyle: string = 'essay'; // ID of the selected summary template
+  summaryTemplates: SummaryTemplate[] = [];
   loading: boolean = false;
   fetchingTranscript: boolean = false;
   generatingSummary: boolean = false;
   transcriptData: TranscriptResponse | null = null;
-  summary: string = '';
-  headline: string = '';
-  error: string = '';
+  summaryResult: SummaryResult | null = null;
+  summaryProgress: SummaryProgress | null = null; // Set while a long transcript is summarized in parts
+  errorAction: 'settings' | 'retry' | null = null; // Recovery button shown with the error
   creditsRemaining: number | null = null;
   showSettings: boolean = false;
+  showTemplateEditor: boolean = false;
   showApiKeyPrompt: boolean = false;
+  vaultLocked: boolean = false; // Encrypted API keys waiting for the passphrase
+  updateAvailable: boolean = false; // A new version is cached and waits for a reload
+  online: boolean = true;
+  vaultPassphrase: string = '';
+  vaultError: string = '';
+  unlockingVault: boolean = false;
   tempScrapeApiKey: string = '';
   tempGeminiApiKey: string = '';
   tempTogetherApiKey: string = '';
@@ -39,23 +70,120 @@ export class App implements OnInit, OnDestroy {
   currentTime: number = 0;
   duration: number = 0;
   hasAudio: boolean = false; // Track if audio is available
-  private currentAudio: HTMLAudioElement | null = null;
+  activeLineIndex: number | null = null; // Transcript line at the video's playback position
+  showHistory: boolean = false; // True while the /history route is active
+  readonly exportFormats = EXPORT_FORMATS;
+  readonly languages = LANGUAGES;
+  translatedTranscript: TranscriptItem[] | null = null; // Parallel to transcriptData.transcript
+  translationLanguage: string = '';
+  translationProgress: TranslationProgress | null = null; // Set while a translation is running
+  audioProgress: { completed: number; total: number } | null = null; // Set while audio chunks are generating
+  private audioPlaylist: AudioPlaylist | null = null;
+  private audioVoice: string = ''; // Voice of the audio in audioPlaylist
+  private spokenText: string = ''; // Normalized text of the audio, for read-along offsets
+  private sentenceOffsets: number[] | null = null; // Start of each .read-sentence span in spokenText
+  private readingSentence: HTMLElement | null = null;
+  private audioSubscription: Subscription | null = null;
+  private summarySubscription: Subscription | null = null;
+  private requestController: AbortController | null = null; // Cancels the current transcript and summary requests
   private timeUpdateInterval: any = null;
+  private routerSubscription: Subscription | null = null;
+  private queueSubscription: Subscription | null = null;
+  private pwaSubscription: Subscription | null = null;
+  private vaultSubscription: Subscription | null = null;
+  private watchUrl: string | null = null; // /watch link of the result being shown, set by updateWatchUrl
+  private pendingWatchLink: (() => void) | null = null; // Deep link opened while the key vault was locked
+  private errorMessage: string = '';
+  private retryFailedAction: (() => void) | null = null;
+
+  get error(): string {
+    return this.errorMessage;
+  }
+
+  /** Setting a plain message clears the recovery action of the previous error */
+  set error(message: string) {
+    this.errorMessage = message;
+    this.errorAction = null;
+    this.retryFailedAction = null;
+  }
+
+  get summary(): string {
+    return this.summaryResult?.summary || '';
+  }
+
+  get headline(): string {
+    return this.summaryResult?.headline || '';
+  }
 
   constructor(
     private api: Api,
     private storage: Storage,
     private summaryService: Summary,
+    private library: Library,
+    private exportService: Export,
+    private queue: Queue,
+    private templates: Templates,
+    private pwa: Pwa,
+    private router: Router,
     private cdr: ChangeDetectorRef
   ) {}
 
   ngOnInit(): void {
+    // Encrypted keys must be unlocked before they can be checked
+    this.vaultSubscription = this.storage.vaultState$.subscribe(state => {
+      const wasLocked = this.vaultLocked;
+      this.vaultLocked = state === 'locked';
+      if (wasLocked && state === 'unlocked') {
+        this.checkApiKeys();
+        this.pendingWatchLink?.();
+        this.pendingWatchLink = null;
+      }
+    });
+    this.checkApiKeys();
+    
+    // Load templates and saved style and length preferences
+    this.loadTemplates();
+    this.summaryLength = this.storage.getSummaryLength();
+
+    // Switch between the main view and history, and reopen saved videos
+    this.routerSubscription = this.router.events
+      .pipe(filter((event): event is NavigationEnd => event instanceof NavigationEnd))
+      .subscribe(event => this.onNavigation(event.urlAfterRedirects));
+
+    // Queued videos spend credits in the background
+    this.queueSubscription = this.queue.state$.subscribe(() => this.loadCredits());
+
+    // Offline support and new-version prompts
+    this.pwa.register();
+    this.pwaSubscription = combineLatest([this.pwa.updateAvailable$, this.pwa.online$]).subscribe(([updateAvailable, online]) => {
+      this.updateAvailable = updateAvailable;
+      this.online = online;
+      this.cdr.detectChanges();
+    });
+
+    // Handle visibility change for background playback
+    document.addEventListener('visibilitychange', () => {
+      if (document.hidden && this.audioPlaylist && this.isSpeaking && !this.isPaused) {
+        // Audio should continue playing in background
+        // No action needed, but we ensure it's not paused
+      }
+    });
+  }
+
+  /**
+   * Walk through the first-time key prompt for any missing API key
+   */
+  private checkApiKeys(): void {
+    if (this.vaultLocked) {
+      return;
+    }
+
     // Check if all API keys exist
     if (!this.storage.hasAllApiKeys()) {
       this.showApiKeyPrompt = true;
-      if (!this.storage.hasApiKey()) {
+      if (!this.storage.hasTranscriptProviderKey()) {
         this.promptStep = 1; // Scrape Creators first
-      } else if (!this.storage.hasGeminiApiKey()) {
+      } else if (!this.storage.hasSummaryApiKey()) {
         this.promptStep = 2; // Then Gemini
       } else {
         this.promptStep = 3; // Finally Together.ai
@@ -63,23 +191,39 @@ export class App implements OnInit, OnDestroy {
     } else {
       this.loadCredits();
     }
-    
-    // Load saved style preference
-    this.summaryStyle = this.storage.getSummaryStyle();
+  }
 
-    // Handle visibility change for background playback
-    document.addEventListener('visibilitychange', () => {
-      if (document.hidden && this.currentAudio && this.isSpeaking && !this.isPaused) {
-        // Audio should continue playing in background
-        // No action needed, but we ensure it's not paused
-      }
-    });
+  /**
+   * Decrypt the key vault for this session
+   */
+  async unlockVault(): Promise<void> {
+    if (!this.vaultPassphrase || this.unlockingVault) {
+      return;
+    }
+
+    this.unlockingVault = true;
+    this.vaultError = '';
+    try {
+      await this.storage.unlockVault(this.vaultPassphrase);
+      this.vaultPassphrase = '';
+    } catch (err: any) {
+      console.error('Failed to unlock key vault:', err);
+      this.vaultError = err?.message || 'Failed to unlock your keys.';
+    } finally {
+      this.unlockingVault = false;
+      this.cdr.detectChanges();
+    }
   }
 
   ngOnDestroy(): void {
-    // Stop any ongoing speech when component is destroyed
+    // Stop any ongoing speech and requests when component is destroyed
     this.stopSpeech();
+    this.cancelRequests();
     this.stopTimeUpdate();
+    this.routerSubscription?.unsubscribe();
+    this.queueSubscription?.unsubscribe();
+    this.pwaSubscription?.unsubscribe();
+    this.vaultSubscription?.unsubscribe();
   }
 
   loadCredits(): void {
@@ -91,7 +235,7 @@ export class App implements OnInit, OnDestroy {
       // Save Scrape Creators API key
       if (this.tempScrapeApiKey.trim()) {
         this.storage.setApiKey(this.tempScrapeApiKey.trim());
-        this.promptStep = 2; // Move to Gemini key
+        this.promptStep = this.storage.hasSummaryApiKey() ? 3 : 2; // Move to Gemini key unless another provider is set up
         this.tempScrapeApiKey = '';
       }
     } else if (this.promptStep === 2) {
@@ -124,43 +268,443 @@ export class App implements OnInit, OnDestroy {
     this.showSettings = true;
   }
 
+  /**
+   * Whether a transcript, summary, translation, question or audio request is in flight
+   */
+  isBusy(): boolean {
+    return this.loading || this.generatingSummary || !!this.translationProgress || !!this.chatView?.asking
+      || this.generatingAudio || !!this.audioProgress;
+  }
+
+  /**
+   * Stop button: cancels every request in flight. The summary text and audio received so far stay.
+   */
+  stopRequests(): void {
+    this.cancelRequests();
+    if (this.hasAudio) {
+      // Keep the clips already generated playable
+      this.audioSubscription?.unsubscribe();
+      this.audioSubscription = null;
+      this.audioProgress = null;
+      this.audioPlaylist?.truncate();
+    } else if (this.generatingAudio) {
+      this.stopSpeech();
+    }
+    this.cdr.detectChanges();
+  }
+
+  /**
+   * Cancels the transcript, summary, translation and question requests for the current video
+   */
+  private cancelRequests(): void {
+    this.requestController?.abort();
+    this.requestController = null;
+    this.summarySubscription?.unsubscribe();
+    this.summarySubscription = null;
+    this.chatView?.cancel();
+    this.loading = false;
+    this.fetchingTranscript = false;
+    this.generatingSummary = false;
+    this.summaryProgress = null;
+    this.translationProgress = null;
+  }
+
+  /**
+   * Cancels whatever is in flight and returns the signal for a new request
+   */
+  private beginRequest(): AbortSignal {
+    this.cancelRequests();
+    this.requestController = new AbortController();
+    return this.requestController.signal;
+  }
+
+  /**
+   * Runs the recovery action offered with the current error
+   */
+  onErrorAction(): void {
+    const retry = this.retryFailedAction;
+    if (this.errorAction === 'settings') {
+      this.openSettings();
+    } else if (retry) {
+      this.error = '';
+      retry();
+    }
+  }
+
+  /**
+   * Shows an error with a way to recover: key and credit problems link to settings,
+   * temporary failures that outlasted the automatic retries can be retried
+   */
+  private showError(err: any, fallback: string, retry?: () => void): void {
+    this.error = err?.message || fallback;
+    if (isApiError(err) && ['missing-key', 'invalid-key', 'out-of-credits'].includes(err.kind)) {
+      this.errorAction = 'settings';
+    } else if (retry && isApiError(err) && err.retriable) {
+      this.errorAction = 'retry';
+      this.retryFailedAction = retry;
+    }
+  }
+
   closeSettings(): void {
     this.showSettings = false;
     this.loadCredits();
+    // A new voice needs new audio; a new speed applies to the current audio
+    if (this.audioPlaylist && this.audioVoice !== this.storage.getTtsVoice()) {
+      this.stopSpeech();
+    }
+    this.audioPlaylist?.setPlaybackRate(this.storage.getTtsPlaybackRate());
   }
 
   onApiKeyUpdated(): void {
     this.loadCredits();
   }
 
+  /**
+   * Handle route changes for the history view, ?video= reopen links, /watch deep links and shared links
+   */
+  private onNavigation(url: string): void {
+    const tree = this.router.parseUrl(url);
+    const segments = tree.root.children['primary']?.segments.map(segment => segment.path) || [];
+    const path = segments.join('/');
+    this.showHistory = path === 'history';
+
+    const videoId = tree.queryParams['video'];
+    if (segments[0] === 'watch' && segments[1]) {
+      // Links this view set itself are already showing
+      if (url !== this.watchUrl) {
+        this.openWatchLink(segments[1], tree.queryParams['style'], tree.queryParams['length']);
+      }
+    } else if (path === 'share') {
+      this.openSharedLink(tree.queryParams);
+    } else if (!this.showHistory && videoId) {
+      const summaryIndex = tree.queryParams['summary'];
+      this.openFromLibrary(videoId, summaryIndex !== undefined ? parseInt(summaryIndex, 10) : undefined);
+    }
+    this.cdr.detectChanges();
+  }
+
+  /**
+   * Show the video of a /watch link with the linked style and length: a saved summary when there is
+   * a matching one, otherwise the transcript (from the cache if possible) summarized again
+   */
+  private async openWatchLink(videoId: string, style?: string, length?: string): Promise<void> {
+    if (style) {
+      this.summaryStyle = this.templates.get(style).id;
+    }
+    const lengthPercentage = parseInt(length || '', 10);
+    if (!isNaN(lengthPercentage)) {
+      // Same range and step as the length slider
+      this.summaryLength = Math.min(100, Math.max(10, Math.round(lengthPercentage / 5) * 5));
+    }
+
+    // The keys are needed to fetch, so wait for the passphrase
+    if (this.vaultLocked) {
+      this.pendingWatchLink = () => this.openWatchLink(videoId, style, length);
+      return;
+    }
+
+    try {
+      const entry = await this.library.get(videoId);
+      const summaryIndex = entry?.summaries.findIndex(saved =>
+        saved.style === this.summaryStyle && saved.lengthPercentage === this.summaryLength
+      ) ?? -1;
+      if (summaryIndex !== -1) {
+        await this.openFromLibrary(videoId, summaryIndex);
+        return;
+      }
+    } catch (err) {
+      console.error('Failed to check the library for a saved summary:', err);
+    }
+
+    this.youtubeUrl = `https://www.youtube.com/watch?v=${videoId}`;
+    await this.getTranscript();
+  }
+
+  /**
+   * Open the YouTube link shared to the installed app; share sheets put it in url, text or title
+   */
+  private openSharedLink(params: Record<string, string>): void {
+    const shared = [params['url'], params['text'], params['title']].filter(Boolean).join(' ');
+    const videoId = this.api.findVideoId(shared);
+    if (!videoId) {
+      this.error = 'The shared link is not a YouTube video.';
+      this.router.navigate(['/'], { replaceUrl: true });
+      return;
+    }
+    this.router.navigate(['/watch', videoId], { replaceUrl: true });
+  }
+
+  /**
+   * Point the address bar at the shareable /watch link of the video being shown
+   */
+  private updateWatchUrl(videoId: string): void {
+    const tree = this.router.createUrlTree(['/watch', videoId], {
+      queryParams: { style: this.summaryStyle, length: this.summaryLength }
+    });
+    const url = this.router.serializeUrl(tree);
+    this.watchUrl = url;
+    if (this.router.url === url) {
+      return;
+    }
+
+    // Update the entry of the same video or of a ?video= reopen link; another video gets its own entry
+    const current = this.router.parseUrl(this.router.url);
+    const sameVideo = this.router.url.split('?')[0] === `/watch/${videoId}`;
+    this.router.navigateByUrl(tree, { replaceUrl: sameVideo || current.queryParams['video'] !== undefined });
+  }
+
+  /**
+   * Share the link of the current result, or copy it where the Web Share API is missing
+   */
+  async shareResult(): Promise<void> {
+    if (!this.transcriptData?.videoId) {
+      return;
+    }
+    this.updateWatchUrl(this.transcriptData.videoId);
+    const url = window.location.origin + this.watchUrl;
+
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: this.headline || 'YouTube summary', url });
+        return;
+      } catch (err: any) {
+        if (err?.name === 'AbortError') {
+          return; // Share sheet dismissed
+        }
+        console.error('Failed to share:', err);
+      }
+    }
+    await this.writeToClipboard(url, 'Link copied to clipboard!');
+  }
+
+  /**
+   * Load a saved video from the library without spending credits
+   */
+  async openFromLibrary(videoId: string, summaryIndex?: number): Promise<void> {
+    try {
+      const entry = await this.library.get(videoId);
+      if (!entry) {
+        this.error = 'That video is no longer in your history.';
+        return;
+      }
+
+      this.stopSpeech();
+      this.cancelRequests();
+      this.error = '';
+      this.transcriptData = entry.transcriptData;
+      this.activeLineIndex = null;
+      this.clearTranslation();
+      this.youtubeUrl = entry.transcriptData.url || entry.videoId;
+
+      const saved = summaryIndex !== undefined && entry.summaries[summaryIndex]
+        ? entry.summaries[summaryIndex]
+        : entry.summaries[entry.summaries.length - 1];
+      this.summaryResult = saved ? {
+        headline: saved.headline,
+        summary: saved.summary,
+        keyPoints: saved.keyPoints || [],
+        chapters: saved.chapters || [],
+        entities: saved.entities || []
+      } : null;
+      if (saved) {
+        this.summaryStyle = this.templates.get(saved.style).id;
+        this.summaryLength = saved.lengthPercentage;
+      }
+    } catch (err: any) {
+      console.error('Failed to open saved video:', err);
+      this.error = err?.message || 'Failed to open saved video.';
+    } finally {
+      // Replace the ?video= params with the video's /watch link so a later search doesn't reopen this entry
+      if (this.transcriptData?.videoId === videoId) {
+        this.updateWatchUrl(videoId);
+      } else {
+        this.router.navigate([], { queryParams: {}, replaceUrl: true });
+      }
+      this.cdr.detectChanges();
+    }
+  }
+
+  /**
+   * Save the current summary to the library
+   */
+  private saveSummaryToLibrary(videoId: string, style: string, lengthPercentage: number): void {
+    if (!this.summaryResult?.summary || !videoId) {
+      return;
+    }
+
+    this.library.addSummary(videoId, {
+      ...this.summaryResult,
+      style,
+      lengthPercentage
+    }).catch(err => console.error('Failed to save summary to library:', err));
+  }
+
+  /**
+   * Translate the transcript line by line and show it beside the original
+   */
+  async translateTranscript(languageCode: string): Promise<void> {
+    const transcriptData = this.transcriptData;
+    if (!languageCode || !transcriptData?.transcript?.length || this.translationProgress) {
+      return;
+    }
+    if (!this.storage.hasSummaryApiKey()) {
+      this.error = `${this.getSummaryProviderLabel()} API key not found. Please set your API key in settings.`;
+      this.showSettings = true;
+      return;
+    }
+
+    const signal = this.beginRequest();
+    this.translationProgress = { completed: 0, total: 1 };
+    try {
+      const translated = await this.summaryService.translateTranscript(transcriptData.transcript, languageCode, progress => {
+        if (!signal.aborted) {
+          this.translationProgress = progress;
+          this.cdr.detectChanges();
+        }
+      }, signal);
+      // Ignore the result if another video was loaded meanwhile
+      if (this.transcriptData === transcriptData && !signal.aborted) {
+        this.translatedTranscript = translated;
+        this.translationLanguage = languageCode;
+      }
+    } catch (err: any) {
+      if (signal.aborted) {
+        return; // Stopped, or replaced by a newer request
+      }
+      console.error('Failed to translate transcript:', err);
+      this.showError(err, 'Failed to translate the transcript.', () => this.translateTranscript(languageCode));
+    } finally {
+      if (!signal.aborted) {
+        this.translationProgress = null;
+      }
+      this.cdr.detectChanges();
+    }
+  }
+
+  clearTranslation(): void {
+    this.translatedTranscript = null;
+    this.translationLanguage = '';
+  }
+
+  getTranslationLabel(): string {
+    return getLanguageName(this.translationLanguage);
+  }
+
+  /**
+   * Jump the transcript and the video to the start of a chapter
+   */
+  onChapterClick(chapter: TranscriptChapter): void {
+    this.transcriptView?.scrollToLine(chapter.index);
+    this.playerView?.seekTo(chapter.startMs);
+  }
+
+  /**
+   * Jump to the transcript line cited in a Q&A answer
+   */
+  onCitationClick(citation: TranscriptCitation): void {
+    this.transcriptView?.scrollToLine(citation.index);
+  }
+
+  /**
+   * Highlight the transcript line being played in the embedded video
+   */
+  onPlayerTimeChange(ms: number): void {
+    const transcript = this.transcriptData?.transcript;
+    if (!transcript || transcript.length === 0) {
+      this.activeLineIndex = null;
+      return;
+    }
+
+    // Binary search for the last line starting at or before the playback position
+    let low = 0;
+    let high = transcript.length - 1;
+    let index = -1;
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2);
+      if ((parseInt(transcript[mid].startMs, 10) || 0) <= ms) {
+        index = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    this.activeLineIndex = index === -1 ? null : index;
+  }
+
+  /**
+   * Seek the embedded video to a transcript line
+   */
+  onTranscriptLineClick(index: number): void {
+    const item = this.transcriptData?.transcript[index];
+    if (item) {
+      this.playerView?.seekTo(parseInt(item.startMs, 10) || 0);
+    }
+  }
+
   onStyleChange(): void {
     this.storage.setSummaryStyle(this.summaryStyle);
   }
 
+  onLengthChange(): void {
+    this.storage.setSummaryLength(this.summaryLength);
+  }
+
+  /**
+   * Picks up the keys and preferences of the profile that was switched to
+   */
+  onProfileSwitched(): void {
+    this.loadTemplates();
+    this.summaryLength = this.storage.getSummaryLength();
+    this.loadCredits();
+    this.checkApiKeys();
+  }
+
+  /**
+   * Reloads the template list, falling back to the default if the selected template was deleted
+   */
+  loadTemplates(): void {
+    this.summaryTemplates = this.templates.getAll();
+    this.summaryStyle = this.templates.get(this.storage.getSummaryStyle()).id;
+  }
+
+  openTemplateEditor(): void {
+    this.showTemplateEditor = true;
+  }
+
+  closeTemplateEditor(): void {
+    this.showTemplateEditor = false;
+    this.loadTemplates();
+  }
+
+  getStyleLabel(): string {
+    return this.templates.get(this.summaryStyle).name;
+  }
+
   formatSummary(text: string): string {
     if (!text) return '';
+    const display = this.templates.get(this.summaryStyle).display;
     
     // For bullets, format bullet points
-    if (this.summaryStyle === 'bullets') {
+    if (display === 'bullets') {
       return text.split('\n').map(line => {
         const trimmed = line.trim();
         if (trimmed.startsWith('•') || trimmed.startsWith('-') || trimmed.startsWith('*')) {
-          return `<p class="bullet-point">${trimmed}</p>`;
+          return `<p class="bullet-point">${this.wrapSentences(trimmed)}</p>`;
         } else if (trimmed) {
-          return `<p class="bullet-point">• ${trimmed}</p>`;
+          return `<p class="bullet-point">• ${this.wrapSentences(trimmed)}</p>`;
         }
         return '';
       }).join('');
     }
     
     // For timestamp, format with timestamps
-    if (this.summaryStyle === 'timestamp') {
+    if (display === 'timestamps') {
       return text.split('\n').map(line => {
         const trimmed = line.trim();
         if (trimmed.match(/\[\d+:\d+\]/)) {
-          return `<p class="timestamp-point"><span class="timestamp">${trimmed.match(/\[[\d:]+\]/)?.[0] || ''}</span>${trimmed.replace(/\[[\d:]+\]\s*/, '')}</p>`;
+          return `<p class="timestamp-point"><span class="timestamp">${trimmed.match(/\[[\d:]+\]/)?.[0] || ''}</span>${this.wrapSentences(trimmed.replace(/\[[\d:]+\]\s*/, ''))}</p>`;
         } else if (trimmed) {
-          return `<p>${trimmed}</p>`;
+          return `<p>${this.wrapSentences(trimmed)}</p>`;
         }
         return '';
       }).join('');
@@ -169,21 +713,50 @@ export class App implements OnInit, OnDestroy {
     // For essay, format paragraphs
     return text.split('\n\n').map(para => {
       const trimmed = para.trim();
-      return trimmed ? `<p>${trimmed}</p>` : '';
+      return trimmed ? `<p>${this.wrapSentences(trimmed)}</p>` : '';
     }).join('');
   }
 
-  async getTranscript(): Promise<void> {
+  /**
+   * Wraps each sentence in a span so it can be highlighted and clicked during audio playback
+   */
+  private wrapSentences(text: string): string {
+    return splitSentences(text)
+      .map(sentence => `<span class="read-sentence">${sentence.trimEnd()}</span>`)
+      .join(' ');
+  }
+
+  /**
+   * Enter submits, Shift+Enter adds another line for batch input
+   */
+  onUrlEnter(event: KeyboardEvent): void {
+    if (event.shiftKey) {
+      return;
+    }
+    event.preventDefault();
+    this.getTranscript();
+  }
+
+  /**
+   * Fetch the current video again, bypassing the transcript cache
+   */
+  refreshTranscript(): void {
+    if (this.transcriptData) {
+      this.youtubeUrl = this.transcriptData.url || this.transcriptData.videoId;
+    }
+    this.getTranscript(true);
+  }
+
+  async getTranscript(forceRefresh: boolean = false): Promise<void> {
     // Check for API key
-    if (!this.storage.hasApiKey()) {
-      this.error = 'Please set your Scrape Creators API key in settings.';
+    if (!this.storage.hasTranscriptProviderKey()) {
+      this.error = `Please set your ${this.getTranscriptProviderLabel()} API key in settings.`;
       this.showSettings = true;
       return;
     }
 
-    // Check credits
-    const credits = this.storage.getCreditsRemaining();
-    if (credits !== null && credits <= 0) {
+    // Check credits, unless a provider that doesn't use them is set up
+    if (!this.api.hasTranscriptCredits()) {
       alert('You have no credits remaining. Please add credits to continue.');
       return;
     }
@@ -193,113 +766,191 @@ export class App implements OnInit, OnDestroy {
       return;
     }
 
-    // Stop any ongoing speech
+    // Playlists, channels and multiple URLs go to the batch queue, and so does everything while offline
+    const sources = this.api.parseVideoSources(this.youtubeUrl);
+    if (this.queue.isBatchInput(sources) || !this.online) {
+      if (!this.storage.hasSummaryApiKey()) {
+        this.error = `${this.getSummaryProviderLabel()} API key not found. Please set your API key in settings.`;
+        this.showSettings = true;
+        return;
+      }
+      this.error = '';
+      this.youtubeUrl = '';
+      await this.queue.enqueue(sources, this.summaryStyle, this.summaryLength);
+      return;
+    }
+
+    // Stop any ongoing speech and requests for the previous video
     this.stopSpeech();
+    const signal = this.beginRequest();
     
     this.loading = true;
     this.fetchingTranscript = true;
-    this.generatingSummary = false;
     this.error = '';
     this.transcriptData = null;
-    this.summary = '';
-    this.headline = '';
+    this.clearTranslation();
+    this.summaryResult = null;
+    this.summaryProgress = null;
+    this.activeLineIndex = null;
 
     try {
-      const response = await firstValueFrom(this.api.getTranscript(this.youtubeUrl));
+      const response = await firstValueFrom(this.api.getTranscript(this.youtubeUrl, forceRefresh).pipe(abortWith(signal)));
       
       if (response) {
         this.transcriptData = response;
         this.fetchingTranscript = false;
+        this.updateWatchUrl(response.videoId);
         
-        // Update credits
-        this.storage.setCreditsRemaining(response.credits_remaining);
-        this.creditsRemaining = response.credits_remaining;
-
-        // Generate summary using Gemini AI
-        if (response.transcript && response.transcript.length > 0) {
-          // Check for Gemini API key
-          if (!this.storage.hasGeminiApiKey()) {
-            this.error = 'Gemini API key not found. Please set your Gemini API key in settings.';
-            this.showSettings = true;
-            this.loading = false;
-            return;
-          }
+        // Update credits (cache hits carry a stale count and cost nothing, other providers send none)
+        const credits = !response.cachedAt && response.provider === 'scrapecreators' ? response.credits_remaining : undefined;
+        if (typeof credits === 'number') {
+          this.storage.setCreditsRemaining(credits);
+          this.creditsRemaining = credits;
+        }
 
-          this.generatingSummary = true;
-          console.log('Starting summary generation...');
-          try {
-            // Use streaming for better UX
-            this.summaryService.generateSummaryStream(
-              response.transcript,
-              this.summaryLength,
-              this.summaryStyle
-            ).subscribe({
-              next: (result: { summary: string; headline: string }) => {
-                console.log('Received chunk in component, summary length:', result.summary.length);
-                this.summary = result.summary;
-                this.headline = result.headline;
-                this.cdr.detectChanges(); // Force change detection
-              },
-              error: (err: any) => {
-                console.error('Error generating summary in component:', err);
-                // Fallback to non-streaming
-                this.summaryService.generateSummary(
-                  response.transcript,
-                  this.summaryLength,
-                  this.summaryStyle
-                ).then(result => {
-                  console.log('Fallback summary received:', result.summary.substring(0, 100));
-                  this.summary = result.summary;
-                  this.headline = result.headline;
-                  this.generatingSummary = false;
-                  this.cdr.detectChanges();
-                }).catch(error => {
-                  this.error = error?.message || 'Failed to generate summary. Please check your Gemini API key.';
-                  this.generatingSummary = false;
-                  this.cdr.detectChanges();
-                });
-              },
-              complete: () => {
-                console.log('Stream complete in component');
-                this.generatingSummary = false;
-                this.cdr.detectChanges();
-              }
-            });
-          } catch (err: any) {
-            // Fallback to non-streaming
-            try {
-              const result = await this.summaryService.generateSummary(
-                response.transcript,
-                this.summaryLength,
-                this.summaryStyle
-              );
-              this.summary = result.summary;
-              this.headline = result.headline;
-            } catch (summaryError: any) {
-              this.error = summaryError?.message || 'Failed to generate summary. Please check your Gemini API key.';
-            }
-            this.generatingSummary = false;
-          }
+        // Save to the local library so it can be reopened from history
+        try {
+          await this.library.saveTranscript(response);
+        } catch (libraryErr) {
+          console.error('Failed to save transcript to library:', libraryErr);
+        }
+        if (signal.aborted) {
+          return;
         }
 
+        await this.summarizeTranscript(response, signal);
+
         // Check if credits are now 0
-        if (response.credits_remaining <= 0) {
+        if (typeof credits === 'number' && !this.api.hasTranscriptCredits()) {
           setTimeout(() => {
             alert('You have no credits remaining. Please add credits to continue.');
           }, 500);
         }
       }
     } catch (err: any) {
-      this.error = err?.message || 'Failed to fetch transcript. Please check your API key and try again.';
+      if (signal.aborted) {
+        return; // Stopped, or replaced by a newer request
+      }
+      this.showError(err, 'Failed to fetch transcript. Please check your API key and try again.', () => this.getTranscript(forceRefresh));
       console.error('Error fetching transcript:', err);
+    } finally {
+      if (!signal.aborted) {
+        this.loading = false;
+      }
+    }
+  }
+
+  /**
+   * Summarize an uploaded caption or transcript file; nothing is fetched and no credit is spent
+   */
+  async onTranscriptUploaded(upload: UploadedTranscript): Promise<void> {
+    this.stopSpeech();
+    const signal = this.beginRequest();
+
+    this.loading = true;
+    this.error = '';
+    this.clearTranslation();
+    this.summaryResult = null;
+    this.summaryProgress = null;
+    this.activeLineIndex = null;
+
+    // Uploads have no video ID, so there is no player, no /watch link and nothing is saved to the library
+    if (this.router.url.startsWith('/watch/')) {
+      this.router.navigate(['/']);
+    }
+    this.watchUrl = null;
+
+    // No credits were used, so the transcript service's count is left alone
+    const response: TranscriptResponse = {
+      success: true,
+      videoId: '',
+      type: 'upload',
+      url: upload.fileName,
+      transcript: upload.transcript
+    };
+    this.transcriptData = response;
+
+    try {
+      await this.summarizeTranscript(response, signal);
     } finally {
       this.loading = false;
     }
   }
 
+  /**
+   * Summarize a transcript with the selected provider, streaming into the results view.
+   * Without a signal (e.g. when retrying) it starts a new request, cancelling the current one.
+   */
+  private async summarizeTranscript(response: TranscriptResponse, signal: AbortSignal = this.beginRequest()): Promise<void> {
+    if (response.transcript && response.transcript.length > 0) {
+      // Check for the provider's API key
+      if (!this.storage.hasSummaryApiKey()) {
+        this.error = `${this.getSummaryProviderLabel()} API key not found. Please set your API key in settings.`;
+        this.showSettings = true;
+        this.loading = false;
+        return;
+      }
+
+      this.generatingSummary = true;
+      const style = this.summaryStyle;
+      const lengthPercentage = this.summaryLength;
+      console.log('Starting summary generation...');
+      // The service already retries and falls back to a non-streaming request where that could help
+      this.summarySubscription = this.summaryService.generateSummaryStream(response.transcript, lengthPercentage, style)
+        .pipe(abortWith(signal))
+        .subscribe({
+          next: ({ progress, ...result }: SummaryStreamUpdate) => {
+            this.summaryProgress = progress || null;
+            this.summaryResult = result;
+            this.cdr.detectChanges(); // Force change detection
+          },
+          error: (err: any) => {
+            if (signal.aborted) {
+              return;
+            }
+            console.error('Error generating summary in component:', err);
+            this.summaryProgress = null;
+            this.showError(err, 'Failed to generate summary. Please check your summary provider settings.', () => this.summarizeTranscript(response));
+            this.generatingSummary = false;
+            this.cdr.detectChanges();
+          },
+          complete: () => {
+            console.log('Stream complete in component');
+            this.generatingSummary = false;
+            this.summaryProgress = null;
+            this.saveSummaryToLibrary(response.videoId, style, lengthPercentage);
+            this.cdr.detectChanges();
+          }
+        });
+    }
+  }
+
+  /**
+   * Switch to the new version; every open tab reloads once it is active
+   */
+  reloadForUpdate(): void {
+    this.pwa.activateUpdate().catch(err => {
+      console.error('Failed to activate the new version:', err);
+      window.location.reload();
+    });
+  }
+
+  /**
+   * Display name of the selected summary provider
+   */
+  getSummaryProviderLabel(): string {
+    return LLM_PROVIDER_DEFAULTS[this.storage.getLlmProvider()].label;
+  }
+
+  /**
+   * Display name of the selected transcript provider
+   */
+  getTranscriptProviderLabel(): string {
+    return TRANSCRIPT_PROVIDER_DEFAULTS[this.storage.getTranscriptProvider()].label;
+  }
+
   isButtonDisabled(): boolean {
-    const credits = this.storage.getCreditsRemaining();
-    return credits !== null && credits <= 0;
+    return !this.api.hasTranscriptCredits();
   }
 
   /**
@@ -320,7 +971,7 @@ export class App implements OnInit, OnDestroy {
     }
 
     // If audio already exists, don't regenerate
-    if (this.hasAudio && this.currentAudio) {
+    if (this.audioPlaylist) {
       return;
     }
 
@@ -331,154 +982,86 @@ export class App implements OnInit, OnDestroy {
       return;
     }
 
+    // Audio generated earlier for this summary and voice is replayed without calling Together.ai
+    const voice = this.storage.getTtsVoice();
+    const audioKey = this.library.getAudioKey(textToSpeak, voice);
+    const saved = await this.library.getAudio(audioKey).catch(() => null);
+
     // Check if Together.ai API key exists
-    if (!this.storage.hasTogetherApiKey()) {
-      this.error = 'Together.ai API key not found. Please set your API key in settings.';
+    if (!saved && !this.storage.hasTogetherApiKey()) {
+      this.showError(missingKeyError('Together.ai'), 'Together.ai API key not found.');
       return;
     }
 
+    // Long summaries are synthesized sentence by sentence in chunks; the first one plays while the rest generate
+    const chunks = splitSpeechText(textToSpeak);
+    // Text lengths map playback time to sentences; saved audio split differently falls back to clip sizes
+    const textLengths = saved && saved.clips.length !== chunks.length
+      ? saved.clips.map(clip => clip.size)
+      : chunks.map(chunk => chunk.length);
+    const playlist = new AudioPlaylist(textLengths, {
+      onChange: () => this.syncAudioState(),
+      onEnded: () => this.onAudioEnded(),
+      onError: err => {
+        this.stopSpeech();
+        this.error = err.message;
+        this.cdr.detectChanges();
+      }
+    });
+    this.audioPlaylist = playlist;
+    this.audioVoice = voice;
+    this.spokenText = normalizeSpeechText(textToSpeak);
+    playlist.setPlaybackRate(this.storage.getTtsPlaybackRate());
     this.generatingAudio = true;
+    this.audioProgress = saved ? null : { completed: 0, total: chunks.length };
     this.cdr.detectChanges();
 
-    try {
-      // Generate audio using Together.ai API
-      const audioBlob = await firstValueFrom(
-        this.api.generateAudio(textToSpeak, 'af_heart')
-      );
-
-      // Create object URL from blob
-      const audioUrl = URL.createObjectURL(audioBlob);
-
-      // Create and configure audio element
-      const audio = new Audio(audioUrl);
-      audio.preload = 'auto';
-      // Ensure audio can play in background on mobile
-      audio.setAttribute('playsinline', 'true');
-      audio.setAttribute('webkit-playsinline', 'true');
-
-      // Wait for metadata to load
-      await new Promise((resolve, reject) => {
-        if (audio.readyState >= 1) {
-          // Metadata already loaded
-          this.duration = audio.duration;
-          resolve(null);
-        } else {
-          audio.onloadedmetadata = () => {
-            this.duration = audio.duration;
-            resolve(null);
-          };
-          audio.onerror = reject;
-          // Timeout fallback
-          setTimeout(() => {
-            if (audio.duration) {
-              this.duration = audio.duration;
-              resolve(null);
-            } else {
-              reject(new Error('Failed to load audio metadata'));
-            }
-          }, 5000);
-        }
-      });
-
-      // Event handlers
-      audio.onplay = () => {
-        this.isSpeaking = true;
-        this.isPaused = false;
-        this.generatingAudio = false;
-        this.startTimeUpdate();
-        // Update Media Session
-        if ('mediaSession' in navigator && navigator.mediaSession) {
-          (navigator.mediaSession as any).playbackState = 'playing';
-        }
-        this.cdr.detectChanges();
-      };
-
-      audio.onpause = () => {
-        this.isPaused = true;
-        this.stopTimeUpdate();
-        // Update Media Session
-        if ('mediaSession' in navigator && navigator.mediaSession) {
-          (navigator.mediaSession as any).playbackState = 'paused';
-        }
-        this.cdr.detectChanges();
-      };
-
-      audio.onended = () => {
-        this.isSpeaking = false;
-        this.isPaused = false;
-        this.currentTime = 0;
-        this.stopTimeUpdate();
-        this.currentAudio = null;
-        this.hasAudio = false; // Mark audio as no longer available
-        // Clear Media Session
-        if ('mediaSession' in navigator && navigator.mediaSession) {
-          (navigator.mediaSession as any).playbackState = 'none';
-        }
-        URL.revokeObjectURL(audioUrl); // Clean up
-        this.cdr.detectChanges();
-      };
-
-      audio.onerror = (event) => {
-        console.error('Audio playback error:', event);
-        this.isSpeaking = false;
-        this.isPaused = false;
-        this.generatingAudio = false;
-        this.stopTimeUpdate();
-        this.currentAudio = null;
-        this.hasAudio = false; // Mark audio as no longer available
-        URL.revokeObjectURL(audioUrl);
-        this.error = 'Failed to play audio. Please try again.';
-        this.cdr.detectChanges();
-      };
-
-      // Update time on timeupdate event
-      audio.ontimeupdate = () => {
-        if (this.currentAudio) {
-          this.currentTime = this.currentAudio.currentTime;
+    // Resolves once the first clip is ready, so callers can start playback
+    await new Promise<void>(resolve => {
+      const clips$ = saved ? from(saved.clips) : this.api.generateAudioChunks(chunks, voice);
+      this.audioSubscription = clips$.pipe(
+        concatMap(blob => playlist.append(blob))
+      ).subscribe({
+        next: () => {
+          if (!saved) {
+            this.audioProgress = { completed: playlist.loadedClips, total: playlist.totalClips };
+          }
+          if (!this.hasAudio) {
+            this.hasAudio = true; // Mark audio as available
+            this.generatingAudio = false;
+            this.setupMediaSession();
+            // Automatically play the audio once the first chunk is ready
+            this.resumeOrPlay();
+            resolve();
+          }
+          this.syncAudioState();
+        },
+        error: (err: any) => {
+          console.error('Failed to generate audio:', err);
+          this.audioProgress = null;
+          if (!this.hasAudio) {
+            this.stopSpeech();
+            this.showError(err, 'Failed to generate audio. Please try again.', () => this.generateAudio());
+          } else {
+            this.showError(err, 'Failed to generate audio. Please try again.');
+            // Clips that were generated stay playable
+            playlist.truncate();
+          }
           this.cdr.detectChanges();
+          resolve();
+        },
+        complete: () => {
+          this.audioProgress = null;
+          if (!saved) {
+            this.library.saveAudio({ key: audioKey, videoId: this.transcriptData?.videoId || undefined, voice, clips: playlist.blobs, createdAt: Date.now() })
+              .catch(err => console.error('Failed to save audio:', err));
+          }
+          this.syncAudioState();
         }
-      };
-
-      this.currentAudio = audio;
-      this.hasAudio = true; // Mark audio as available
-      this.generatingAudio = false;
-      
-      // Set up Media Session API for better mobile background playback
-      if ('mediaSession' in navigator && navigator.mediaSession) {
-        const mediaSession = navigator.mediaSession as any;
-        mediaSession.metadata = new (window as any).MediaMetadata({
-          title: this.headline || 'Summary Audio',
-          artist: 'YoutubeMagic',
-        });
-        
-        mediaSession.setActionHandler('play', () => {
-          this.resumeSpeech();
-        });
-        
-        mediaSession.setActionHandler('pause', () => {
-          this.pauseSpeech();
-        });
-        
-        mediaSession.setActionHandler('stop', () => {
-          this.stopSpeech();
-        });
-      }
-      
-      // Automatically play the audio after generation
-      try {
-        await audio.play();
-      } catch (playErr: any) {
-        console.error('Failed to auto-play audio:', playErr);
-        // Audio will be available for manual play
-      }
-      
-      this.cdr.detectChanges();
-    } catch (err: any) {
-      console.error('Failed to generate audio:', err);
-      this.generatingAudio = false;
-      this.error = err?.message || 'Failed to generate audio. Please try again.';
-      this.cdr.detectChanges();
-    }
+      });
+      // Stopped before the first clip arrived
+      this.audioSubscription.add(() => resolve());
+    });
   }
 
   /**
@@ -501,34 +1084,22 @@ export class App implements OnInit, OnDestroy {
       return;
     }
 
-    // Stop any current speech
-    this.stopSpeech();
-
-    // If audio doesn't exist, generate it first
-    if (!this.hasAudio || !this.currentAudio) {
+    // If audio doesn't exist, generate it first (playback starts with the first chunk)
+    if (!this.hasAudio || !this.audioPlaylist) {
+      this.stopSpeech();
       await this.generateAudio();
+      return;
     }
 
-    // Now play the audio if it exists
-    if (this.currentAudio && this.hasAudio) {
-      try {
-        await this.currentAudio.play();
-      } catch (err: any) {
-        console.error('Failed to play audio:', err);
-        this.error = 'Failed to play audio. Please try again.';
-        this.cdr.detectChanges();
-      }
-    }
+    await this.resumeOrPlay();
   }
 
   /**
    * Pause text-to-speech
    */
   pauseSpeech(): void {
-    if (this.currentAudio && this.isSpeaking && !this.isPaused) {
-      this.currentAudio.pause();
-      this.isPaused = true;
-      this.cdr.detectChanges();
+    if (this.audioPlaylist && this.isSpeaking && !this.isPaused) {
+      this.audioPlaylist.pause();
     }
   }
 
@@ -536,47 +1107,172 @@ export class App implements OnInit, OnDestroy {
    * Resume text-to-speech
    */
   async resumeSpeech(): Promise<void> {
-    if (this.currentAudio && this.isPaused) {
-      try {
-        await this.currentAudio.play();
-        this.isPaused = false;
-        this.cdr.detectChanges();
-      } catch (err) {
-        console.error('Failed to resume audio:', err);
-      }
+    if (this.audioPlaylist && this.isPaused) {
+      await this.resumeOrPlay();
     }
   }
 
   /**
-   * Stop text-to-speech
+   * Stop text-to-speech and discard the generated audio
    */
   stopSpeech(): void {
-    if (this.currentAudio) {
-      this.currentAudio.pause();
-      this.currentAudio.currentTime = 0;
-      const src = this.currentAudio.src;
-      if (src.startsWith('blob:')) {
-        URL.revokeObjectURL(src);
-      }
-      this.currentAudio = null;
-    }
+    this.audioSubscription?.unsubscribe();
+    this.audioSubscription = null;
+    this.audioPlaylist?.destroy();
+    this.audioPlaylist = null;
     this.isSpeaking = false;
     this.isPaused = false;
     this.generatingAudio = false;
+    this.audioProgress = null;
     this.currentTime = 0;
+    this.duration = 0;
     this.hasAudio = false; // Mark audio as no longer available
     this.stopTimeUpdate();
+    this.clearReadAlong();
+    this.spokenText = '';
+    // Clear Media Session
+    if ('mediaSession' in navigator && navigator.mediaSession) {
+      (navigator.mediaSession as any).playbackState = 'none';
+    }
     this.cdr.detectChanges();
   }
 
+  /**
+   * Keep the audio after it finishes so it can be replayed or downloaded
+   */
+  private onAudioEnded(): void {
+    this.isSpeaking = false;
+    this.isPaused = false;
+    this.currentTime = 0;
+    this.stopTimeUpdate();
+    this.clearReadAlong();
+    if ('mediaSession' in navigator && navigator.mediaSession) {
+      (navigator.mediaSession as any).playbackState = 'none';
+    }
+    this.cdr.detectChanges();
+  }
+
+  /**
+   * Save the summary audio as an MP3 named after the headline
+   */
+  downloadAudio(): void {
+    if (!this.audioPlaylist || this.audioProgress) {
+      return;
+    }
+    try {
+      this.exportService.downloadAudio(this.audioPlaylist.blobs, this.headline);
+    } catch (err: any) {
+      console.error('Failed to download audio:', err);
+      this.error = err?.message || 'Failed to download audio.';
+    }
+  }
+
+  private async resumeOrPlay(): Promise<void> {
+    try {
+      await this.audioPlaylist?.play();
+    } catch (err: any) {
+      console.error('Failed to play audio:', err);
+      this.error = 'Failed to play audio. Please try again.';
+      this.cdr.detectChanges();
+    }
+  }
+
+  /**
+   * Copy the playlist's playback state into the mini player and the Media Session
+   */
+  private syncAudioState(): void {
+    const playlist = this.audioPlaylist;
+    if (!playlist) {
+      return;
+    }
+
+    if (playlist.isPlaying) {
+      this.isSpeaking = true;
+      this.isPaused = false;
+      this.startTimeUpdate();
+    } else if (this.isSpeaking) {
+      this.isPaused = true;
+      this.stopTimeUpdate();
+    }
+    this.currentTime = playlist.currentTime;
+    this.duration = playlist.duration;
+    this.updateReadAlong();
+
+    if ('mediaSession' in navigator && navigator.mediaSession) {
+      const mediaSession = navigator.mediaSession as any;
+      mediaSession.playbackState = playlist.isPlaying ? 'playing' : this.isPaused ? 'paused' : 'none';
+      this.updateMediaPosition();
+    }
+    this.cdr.detectChanges();
+  }
+
+  /**
+   * Set up Media Session API for better mobile background playback, covering the whole playlist
+   */
+  private setupMediaSession(): void {
+    if (!('mediaSession' in navigator) || !navigator.mediaSession) {
+      return;
+    }
+
+    const mediaSession = navigator.mediaSession as any;
+    mediaSession.metadata = new (window as any).MediaMetadata({
+      title: this.headline || 'Summary Audio',
+      artist: 'YoutubeMagic',
+    });
+
+    mediaSession.setActionHandler('play', () => {
+      this.resumeSpeech();
+    });
+
+    mediaSession.setActionHandler('pause', () => {
+      this.pauseSpeech();
+    });
+
+    mediaSession.setActionHandler('stop', () => {
+      this.stopSpeech();
+    });
+
+    mediaSession.setActionHandler('seekto', (details: any) => {
+      this.audioPlaylist?.seek(details.seekTime);
+    });
+
+    mediaSession.setActionHandler('seekbackward', (details: any) => {
+      this.audioPlaylist?.seek(this.currentTime - (details.seekOffset || 10));
+    });
+
+    mediaSession.setActionHandler('seekforward', (details: any) => {
+      this.audioPlaylist?.seek(this.currentTime + (details.seekOffset || 10));
+    });
+  }
+
+  private updateMediaPosition(): void {
+    const mediaSession = navigator.mediaSession as any;
+    if (!mediaSession.setPositionState || !this.duration || !isFinite(this.duration)) {
+      return;
+    }
+    try {
+      mediaSession.setPositionState({
+        duration: this.duration,
+        playbackRate: this.audioPlaylist?.playbackRate || 1,
+        position: Math.min(this.currentTime, this.duration)
+      });
+    } catch {
+      // Ignore positions the browser rejects while the duration is still an estimate
+    }
+  }
+
   /**
    * Start time update interval
    */
   private startTimeUpdate(): void {
-    this.stopTimeUpdate();
+    if (this.timeUpdateInterval) {
+      return;
+    }
     this.timeUpdateInterval = setInterval(() => {
-      if (this.currentAudio) {
-        this.currentTime = this.currentAudio.currentTime;
+      if (this.audioPlaylist) {
+        this.currentTime = this.audioPlaylist.currentTime;
+        this.duration = this.audioPlaylist.duration;
+        this.updateReadAlong();
         this.cdr.detectChanges();
       }
     }, 100);
@@ -592,6 +1288,84 @@ export class App implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Highlight the summary sentence being read and keep it in view
+   */
+  private updateReadAlong(): void {
+    const spans = this.getSentenceSpans();
+    if (!this.audioPlaylist || spans.length === 0 || !this.isSpeaking) {
+      return;
+    }
+
+    const offsets = this.getSentenceOffsets(spans);
+    const offset = this.audioPlaylist.textOffset;
+    let index = 0;
+    while (index < offsets.length - 1 && offsets[index + 1] <= offset) {
+      index++;
+    }
+
+    const sentence = spans[index];
+    if (sentence === this.readingSentence) {
+      return;
+    }
+    this.readingSentence?.classList.remove('reading');
+    sentence.classList.add('reading');
+    this.readingSentence = sentence;
+    if (!this.isPaused) {
+      sentence.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }
+
+  private clearReadAlong(): void {
+    this.readingSentence?.classList.remove('reading');
+    this.readingSentence = null;
+    this.sentenceOffsets = null;
+  }
+
+  /**
+   * Seek the audio to a clicked summary sentence
+   */
+  onSummaryClick(event: MouseEvent): void {
+    const sentence = (event.target as HTMLElement).closest('.read-sentence');
+    if (!this.audioPlaylist || !this.hasAudio || !sentence) {
+      return;
+    }
+
+    const spans = this.getSentenceSpans();
+    const index = spans.indexOf(sentence as HTMLElement);
+    if (index === -1) {
+      return;
+    }
+    this.audioPlaylist.seek(this.audioPlaylist.timeAtTextOffset(this.getSentenceOffsets(spans)[index]));
+    if (!this.isSpeaking) {
+      this.resumeOrPlay();
+    }
+  }
+
+  private getSentenceSpans(): HTMLElement[] {
+    const container = this.summaryTextRef?.nativeElement;
+    return container ? Array.from(container.querySelectorAll<HTMLElement>('.read-sentence')) : [];
+  }
+
+  /**
+   * Where each rendered sentence starts in the spoken text, found in order
+   */
+  private getSentenceOffsets(spans: HTMLElement[]): number[] {
+    if (this.sentenceOffsets?.length === spans.length) {
+      return this.sentenceOffsets;
+    }
+
+    let cursor = 0;
+    this.sentenceOffsets = spans.map(span => {
+      const found = this.spokenText.indexOf(normalizeSpeechText(span.textContent || ''), cursor);
+      if (found !== -1) {
+        cursor = found;
+      }
+      return cursor;
+    });
+    return this.sentenceOffsets;
+  }
+
   /**
    * Format time in MM:SS format
    */
@@ -603,10 +1377,10 @@ export class App implements OnInit, OnDestroy {
   }
 
   /**
-   * Seek audio to clicked position
+   * Seek audio to clicked position across the whole playlist
    */
   seekAudio(event: MouseEvent): void {
-    if (!this.currentAudio || !this.duration) return;
+    if (!this.audioPlaylist || !this.duration) return;
     
     const progressBar = event.currentTarget as HTMLElement;
     const rect = progressBar.getBoundingClientRect();
@@ -614,8 +1388,7 @@ export class App implements OnInit, OnDestroy {
     const percentage = clickX / rect.width;
     const newTime = percentage * this.duration;
     
-    this.currentAudio.currentTime = newTime;
-    this.currentTime = newTime;
+    this.audioPlaylist.seek(newTime);
   }
 
   /**
@@ -651,25 +1424,34 @@ export class App implements OnInit, OnDestroy {
       .map(item => `[${item.startTimeText}] ${item.text}`)
       .join('\n');
 
+    await this.writeToClipboard(transcriptText, 'Transcript copied to clipboard!');
+  }
+
+  /**
+   * Copy transcript lines matching the current search
+   */
+  async copyMatchingLines(text: string): Promise<void> {
+    await this.writeToClipboard(text, 'Matching lines copied to clipboard!');
+  }
+
+  /**
+   * Download the transcript as subtitles, Markdown or JSON
+   */
+  exportTranscript(format: ExportFormat): void {
+    if (!this.transcriptData || !this.transcriptData.transcript || this.transcriptData.transcript.length === 0) {
+      return;
+    }
+
     try {
-      await navigator.clipboard.writeText(transcriptText);
-      this.showCopyMessage('Transcript copied to clipboard!');
-    } catch (err) {
-      console.error('Failed to copy transcript:', err);
-      // Fallback for older browsers
-      const textArea = document.createElement('textarea');
-      textArea.value = transcriptText;
-      textArea.style.position = 'fixed';
-      textArea.style.opacity = '0';
-      document.body.appendChild(textArea);
-      textArea.select();
-      try {
-        document.execCommand('copy');
-        this.showCopyMessage('Transcript copied to clipboard!');
-      } catch (fallbackErr) {
-        this.showCopyMessage('Failed to copy. Please select and copy manually.');
-      }
-      document.body.removeChild(textArea);
+      this.exportService.download(format, {
+        transcriptData: this.transcriptData,
+        headline: this.headline,
+        summary: this.summary,
+        chapters: this.summaryService.resolveChapters(this.summaryResult?.chapters || [], this.transcriptData.transcript)
+      });
+    } catch (err: any) {
+      console.error('Failed to export transcript:', err);
+      this.showCopyMessage(err?.message || 'Failed to export transcript.');
     }
   }
 
@@ -683,22 +1465,28 @@ export class App implements OnInit, OnDestroy {
 
     // Strip HTML tags and get plain text
     const plainText = this.stripHtml(this.summary);
+    await this.writeToClipboard(plainText, 'Summary copied to clipboard!');
+  }
 
+  /**
+   * Write text to the clipboard, falling back to execCommand for older browsers
+   */
+  private async writeToClipboard(text: string, successMessage: string): Promise<void> {
     try {
-      await navigator.clipboard.writeText(plainText);
-      this.showCopyMessage('Summary copied to clipboard!');
+      await navigator.clipboard.writeText(text);
+      this.showCopyMessage(successMessage);
     } catch (err) {
-      console.error('Failed to copy summary:', err);
+      console.error('Failed to copy to clipboard:', err);
       // Fallback for older browsers
       const textArea = document.createElement('textarea');
-      textArea.value = plainText;
+      textArea.value = text;
       textArea.style.position = 'fixed';
       textArea.style.opacity = '0';
       document.body.appendChild(textArea);
       textArea.select();
       try {
         document.execCommand('copy');
-        this.showCopyMessage('Summary copied to clipboard!');
+        this.showCopyMessage(successMessage);
       } catch (fallbackErr) {
         this.showCopyMessage('Failed to copy. Please select and copy manually.');
       }
@@ -0,0 +1,124 @@
+import { Component, EventEmitter, Input, OnChanges, OnDestroy, Output, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { TranscriptItem } from '../../services/api';
+import { ChatMessage, Summary, TranscriptCitation } from '../../services/summary';
+
+interface MessageSegment {
+  text: string;
+  citation?: TranscriptCitation;
+}
+
+@Component({
+  selector: 'app-chat',
+  imports: [CommonModule, FormsModule],
+  templateUrl: './chat.html',
+  styleUrl: './chat.css',
+})
+export class Chat implements OnChanges, OnDestroy {
+  @Input() transcript: TranscriptItem[] = [];
+  @Output() citationClick = new EventEmitter<TranscriptCitation>();
+
+  messages: ChatMessage[] = [];
+  question: string = '';
+  asking: boolean = false;
+  error: string = '';
+  private segmentCache = new Map<ChatMessage, MessageSegment[]>();
+  private controller: AbortController | null = null; // Cancels the question being answered
+
+  constructor(private summaryService: Summary) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    // A new transcript starts a new conversation; an answer still pending belongs to the old one
+    if (changes['transcript']) {
+      this.cancel();
+      this.messages = [];
+      this.segmentCache.clear();
+      this.error = '';
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.cancel();
+  }
+
+  async ask(): Promise<void> {
+    const question = this.question.trim();
+    if (!question || this.asking) {
+      return;
+    }
+
+    const transcript = this.transcript;
+    const history = [...this.messages];
+    this.messages = [...history, { role: 'user', content: question }];
+    this.question = '';
+    this.asking = true;
+    this.error = '';
+    const controller = new AbortController();
+    this.controller = controller;
+
+    try {
+      const answer = await this.summaryService.askQuestion(transcript, history, question, controller.signal);
+      // Drop answers to a cancelled question or to a transcript that has since been replaced
+      if (!controller.signal.aborted && this.transcript === transcript) {
+        this.messages = [...this.messages, answer];
+      }
+    } catch (err: any) {
+      if (!controller.signal.aborted) {
+        console.error('Failed to answer question:', err);
+        this.error = err?.message || 'Failed to answer. Please try again.';
+      }
+    } finally {
+      if (this.controller === controller) {
+        this.controller = null;
+        this.asking = false;
+      }
+    }
+  }
+
+  /**
+   * Cancels the question being answered; its answer is dropped
+   */
+  cancel(): void {
+    this.controller?.abort();
+    this.controller = null;
+    this.asking = false;
+  }
+
+  clear(): void {
+    this.messages = [];
+    this.segmentCache.clear();
+    this.error = '';
+  }
+
+  /**
+   * Split an answer into plain text and clickable [M:SS] citations
+   */
+  getSegments(message: ChatMessage): MessageSegment[] {
+    const cached = this.segmentCache.get(message);
+    if (cached) {
+      return cached;
+    }
+
+    const segments: MessageSegment[] = [];
+    const pattern = /\[(\d{1,2}(?::\d{2}){1,2})\]/g;
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(message.content)) !== null) {
+      if (match.index > lastIndex) {
+        segments.push({ text: message.content.substring(lastIndex, match.index) });
+      }
+      const citation = this.summaryService.extractCitations(match[0], this.transcript)[0];
+      segments.push(citation ? { text: match[1], citation } : { text: match[0] });
+      lastIndex = match.index + match[0].length;
+    }
+
+    if (lastIndex < message.content.length) {
+      segments.push({ text: message.content.substring(lastIndex) });
+    }
+
+    this.segmentCache.set(message, segments);
+    return segments;
+  }
+}
@@ -0,0 +1,81 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router, RouterLink } from '@angular/router';
+import { Library, LibraryEntry } from '../../services/library';
+import { Templates } from '../../services/templates';
+
+@Component({
+  selector: 'app-history',
+  imports: [CommonModule, RouterLink],
+  templateUrl: './history.html',
+  styleUrl: './history.css',
+})
+export class History implements OnInit {
+  entries: LibraryEntry[] = [];
+  loading: boolean = true;
+  error: string = '';
+
+  constructor(
+    private library: Library,
+    private templates: Templates,
+    private router: Router
+  ) {}
+
+  ngOnInit(): void {
+    this.loadEntries();
+  }
+
+  async loadEntries(): Promise<void> {
+    this.loading = true;
+    try {
+      this.entries = await this.library.getAll();
+      this.error = '';
+    } catch (err: any) {
+      console.error('Failed to load library:', err);
+      this.error = err?.message || 'Failed to load your saved videos.';
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  /**
+   * Headline of the most recent summary, falling back to the video ID
+   */
+  getTitle(entry: LibraryEntry): string {
+    const latest = entry.summaries[entry.summaries.length - 1];
+    return latest?.headline || entry.videoId;
+  }
+
+  /**
+   * Template name for a saved summary; templates deleted since show as "Custom"
+   */
+  getStyleLabel(style: string): string {
+    const template = this.templates.getAll().find(t => t.id === style);
+    return template ? template.name : 'Custom';
+  }
+
+  /**
+   * Reopen a saved video in the main view without fetching it again
+   */
+  openEntry(entry: LibraryEntry, summaryIndex?: number): void {
+    const queryParams: Record<string, string | number> = { video: entry.videoId };
+    if (summaryIndex !== undefined) {
+      queryParams['summary'] = summaryIndex;
+    }
+    this.router.navigate(['/'], { queryParams });
+  }
+
+  async deleteEntry(entry: LibraryEntry): Promise<void> {
+    if (!confirm(`Delete "${this.getTitle(entry)}" from your history?`)) {
+      return;
+    }
+
+    try {
+      await this.library.delete(entry.videoId);
+      this.entries = this.entries.filter(e => e.videoId !== entry.videoId);
+    } catch (err: any) {
+      console.error('Failed to delete library entry:', err);
+      this.error = err?.message || 'Failed to delete this video.';
+    }
+  }
+}
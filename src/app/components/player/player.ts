@@ -0,0 +1,165 @@
+import { AfterViewInit, Component, ElementRef, EventEmitter, Input, NgZone, OnChanges, OnDestroy, Output, SimpleChanges, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+// Minimal typings for the parts of the YouTube IFrame Player API we use
+interface YouTubePlayer {
+  cueVideoById(videoId: string): void;
+  seekTo(seconds: number, allowSeekAhead: boolean): void;
+  playVideo(): void;
+  getCurrentTime(): number;
+  getPlayerState(): number;
+  destroy(): void;
+}
+
+interface YouTubeNamespace {
+  Player: new (element: HTMLElement, options: {
+    videoId: string;
+    width?: string;
+    height?: string;
+    playerVars?: Record<string, string | number>;
+    events?: {
+      onReady?: () => void;
+      onStateChange?: (event: { data: number }) => void;
+    };
+  }) => YouTubePlayer;
+  PlayerState: { PLAYING: number };
+}
+
+let apiLoader: Promise<YouTubeNamespace> | null = null;
+
+/**
+ * Loads the IFrame Player API script once and resolves with the global YT namespace
+ */
+function loadYouTubeApi(): Promise<YouTubeNamespace> {
+  if (apiLoader) {
+    return apiLoader;
+  }
+
+  apiLoader = new Promise((resolve, reject) => {
+    const win = window as any;
+    if (win.YT?.Player) {
+      resolve(win.YT);
+      return;
+    }
+
+    const previousReady = win.onYouTubeIframeAPIReady;
+    win.onYouTubeIframeAPIReady = () => {
+      previousReady?.();
+      resolve(win.YT);
+    };
+
+    const script = document.createElement('script');
+    script.src = 'https://www.youtube.com/iframe_api';
+    script.onerror = () => {
+      apiLoader = null;
+      reject(new Error('Failed to load the YouTube player.'));
+    };
+    document.head.appendChild(script);
+  });
+
+  return apiLoader;
+}
+
+@Component({
+  selector: 'app-player',
+  imports: [CommonModule],
+  templateUrl: './player.html',
+  styleUrl: './player.css',
+})
+export class Player implements AfterViewInit, OnChanges, OnDestroy {
+  @Input() videoId: string = '';
+  @Output() timeChange = new EventEmitter<number>(); // Current playback position in ms
+
+  @ViewChild('playerHost') playerHost?: ElementRef<HTMLElement>;
+
+  error: string = '';
+  private player: YouTubePlayer | null = null;
+  private ready: boolean = false;
+  private pollInterval: any = null;
+
+  constructor(private zone: NgZone) {}
+
+  ngAfterViewInit(): void {
+    this.createPlayer();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['videoId'] && !changes['videoId'].firstChange && this.player && this.ready) {
+      this.player.cueVideoById(this.videoId);
+      this.timeChange.emit(0);
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.stopPolling();
+    this.player?.destroy();
+    this.player = null;
+  }
+
+  /**
+   * Seek to a position in ms and start playing
+   */
+  seekTo(ms: number): void {
+    if (!this.player || !this.ready) {
+      return;
+    }
+    this.player.seekTo(ms / 1000, true);
+    this.player.playVideo();
+    this.timeChange.emit(ms);
+  }
+
+  private async createPlayer(): Promise<void> {
+    if (!this.playerHost || !this.videoId) {
+      return;
+    }
+
+    try {
+      const YT = await loadYouTubeApi();
+      this.player = new YT.Player(this.playerHost.nativeElement, {
+        videoId: this.videoId,
+        width: '100%',
+        height: '100%',
+        playerVars: { playsinline: 1, rel: 0 },
+        events: {
+          onReady: () => {
+            this.ready = true;
+          },
+          onStateChange: (event) => {
+            if (event.data === YT.PlayerState.PLAYING) {
+              this.startPolling();
+            } else {
+              this.stopPolling();
+              this.emitCurrentTime();
+            }
+          }
+        }
+      });
+    } catch (err: any) {
+      console.error('Failed to create YouTube player:', err);
+      this.error = err?.message || 'Failed to load the YouTube player.';
+    }
+  }
+
+  /**
+   * The IFrame API has no timeupdate event, so poll while playing
+   */
+  private startPolling(): void {
+    this.stopPolling();
+    this.pollInterval = setInterval(() => this.emitCurrentTime(), 250);
+  }
+
+  private stopPolling(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  private emitCurrentTime(): void {
+    if (!this.player || !this.ready) {
+      return;
+    }
+    const ms = Math.round(this.player.getCurrentTime() * 1000);
+    this.zone.run(() => this.timeChange.emit(ms));
+  }
+}
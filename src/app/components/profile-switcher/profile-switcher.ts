@@ -0,0 +1,50 @@
+import { Component, EventEmitter, OnDestroy, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { Profiles, SettingsProfile } from '../../services/profiles';
+
+@Component({
+  selector: 'app-profile-switcher',
+  imports: [CommonModule],
+  templateUrl: './profile-switcher.html',
+  styleUrl: './profile-switcher.css',
+})
+export class ProfileSwitcher implements OnInit, OnDestroy {
+  @Output() switched = new EventEmitter<void>();
+
+  profiles: SettingsProfile[] = [];
+  activeId: string = '';
+  private subscription: Subscription | null = null;
+
+  constructor(private profileService: Profiles) {}
+
+  ngOnInit(): void {
+    this.loadProfiles();
+    this.subscription = this.profileService.changes$.subscribe(() => this.loadProfiles());
+  }
+
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  onSelect(select: HTMLSelectElement): void {
+    const id = select.value;
+    if (!id || id === this.activeId) {
+      return;
+    }
+
+    try {
+      this.profileService.switchTo(id);
+      this.switched.emit();
+    } catch (err: any) {
+      alert(err?.message || 'Failed to switch profile.');
+      // Put the select back on the profile that is still active
+      select.value = this.activeId;
+    }
+  }
+
+  private loadProfiles(): void {
+    this.profiles = this.profileService.getAll();
+    this.activeId = this.profileService.getActiveId() || '';
+  }
+}
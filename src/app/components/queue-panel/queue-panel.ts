@@ -0,0 +1,77 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { Queue, QueueItem, QueueItemStatus, QueueState } from '../../services/queue';
+
+@Component({
+  selector: 'app-queue-panel',
+  imports: [CommonModule],
+  templateUrl: './queue-panel.html',
+  styleUrl: './queue-panel.css',
+})
+export class QueuePanel implements OnInit, OnDestroy {
+  state: QueueState | null = null;
+  private subscription: Subscription | null = null;
+
+  constructor(
+    private queue: Queue,
+    private router: Router
+  ) {}
+
+  ngOnInit(): void {
+    this.subscription = this.queue.state$.subscribe(state => {
+      this.state = state;
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  getStatusLabel(status: QueueItemStatus): string {
+    switch (status) {
+      case 'pending': return 'Waiting';
+      case 'fetching': return 'Fetching transcript...';
+      case 'summarizing': return 'Summarizing...';
+      case 'done': return 'Done';
+      case 'error': return 'Failed';
+      case 'skipped': return 'Skipped';
+    }
+  }
+
+  countByStatus(status: QueueItemStatus): number {
+    return this.state?.items.filter(item => item.status === status).length || 0;
+  }
+
+  isActive(item: QueueItem): boolean {
+    return item.status === 'fetching' || item.status === 'summarizing';
+  }
+
+  pause(): void {
+    this.queue.pause();
+  }
+
+  resume(): void {
+    this.queue.resume();
+  }
+
+  skip(item: QueueItem): void {
+    this.queue.skip(item.id);
+  }
+
+  retry(item: QueueItem): void {
+    this.queue.retry(item.id);
+  }
+
+  clearFinished(): void {
+    this.queue.clearFinished();
+  }
+
+  /**
+   * Open a finished video from the library
+   */
+  open(item: QueueItem): void {
+    this.router.navigate(['/'], { queryParams: { video: item.videoId } });
+  }
+}
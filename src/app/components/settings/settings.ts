@@ -1,7 +1,14 @@
-import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { Component, EventEmitter, Input, OnDestroy, Output } from '@angular/core';
 import { FormsModule } from '@angular/forms';
 import { CommonModule } from '@angular/common';
-import { Storage } from '../../services/storage';
+import { Subscription } from 'rxjs';
+import { Storage, VaultState } from '../../services/storage';
+import { Library } from '../../services/library';
+import { LLM_PROVIDER_DEFAULTS, LlmProviderType } from '../../services/llm-provider';
+import { LANGUAGES } from '../../services/languages';
+import { Profiles, SettingsProfile } from '../../services/profiles';
+import { TTS_PLAYBACK_RATES, TTS_VOICES } from '../../services/tts-voices';
+import { DEFAULT_TRANSCRIPT_FIELD_MAPPING, TRANSCRIPT_PROVIDER_DEFAULTS, TranscriptFieldMapping, TranscriptProviderType } from '../../services/transcript-provider';
 
 @Component({
   selector: 'app-settings',
@@ -9,7 +16,7 @@ import { Storage } from '../../services/storage';
   templateUrl: './settings.html',
   styleUrl: './settings.css',
 })
-export class Settings {
+export class Settings implements OnDestroy {
   @Input() isOpen: boolean = false;
   @Output() close = new EventEmitter<void>();
   @Output() apiKeyUpdated = new EventEmitter<string>();
@@ -17,20 +24,103 @@ export class Settings {
   apiKey: string = '';
   geminiApiKey: string = '';
   togetherApiKey: string = '';
+  openAiApiKey: string = '';
+  transcriptServiceApiKey: string = '';
   creditsRemaining: number | null = null;
+
+  // Summary provider
+  readonly providerOptions = (Object.keys(LLM_PROVIDER_DEFAULTS) as LlmProviderType[])
+    .map(type => ({ value: type, label: LLM_PROVIDER_DEFAULTS[type].label }));
+  llmProvider: LlmProviderType = 'gemini';
+  llmBaseUrl: string = '';
+  llmModel: string = '';
+
+  // Transcript provider
+  readonly transcriptProviderOptions = (Object.keys(TRANSCRIPT_PROVIDER_DEFAULTS) as TranscriptProviderType[])
+    .map(type => ({ value: type, label: TRANSCRIPT_PROVIDER_DEFAULTS[type].label }));
+  transcriptProvider: TranscriptProviderType = 'scrapecreators';
+  transcriptFallbackProvider: TranscriptProviderType | '' = '';
+  transcriptBaseUrl: string = '';
+  transcriptFieldMapping: TranscriptFieldMapping = { ...DEFAULT_TRANSCRIPT_FIELD_MAPPING };
+
+  // Languages
+  readonly languages = LANGUAGES;
+  summaryLanguage: string = '';
+  transcriptLanguage: string = '';
+
+  // Summary audio
+  readonly ttsVoices = TTS_VOICES;
+  readonly ttsPlaybackRates = TTS_PLAYBACK_RATES;
+  ttsVoice: string = '';
+  ttsPlaybackRate: number = 1;
+  audioMessage: string = '';
+
+  // Key vault
+  readonly MIN_PASSPHRASE_LENGTH = 8;
+  vaultState: VaultState = 'disabled';
+  vaultCurrentPassphrase: string = '';
+  vaultNewPassphrase: string = '';
+  vaultConfirmPassphrase: string = '';
+  vaultIdleMinutes: number = 0;
+  vaultMessage: string = '';
+  vaultBusy: boolean = false;
+  keyMessage: string = '';
+  private vaultSubscription: Subscription;
+
+  // Profiles
+  profiles: SettingsProfile[] = [];
+  activeProfileId: string | null = null;
+  newProfileName: string = '';
+  includeKeysInExport: boolean = false;
+  profileMessage: string = '';
+  private profileSubscription: Subscription;
+
+  // Transcript cache
+  cacheTtlHours: number = 0;
+  cacheMessage: string = '';
   
   // Display values (masked)
   displayApiKey: string = '';
   displayGeminiApiKey: string = '';
   displayTogetherApiKey: string = '';
+  displayOpenAiApiKey: string = '';
+  displayTranscriptServiceApiKey: string = '';
   
   // Track if user is editing
   editingApiKey: boolean = false;
   editingGeminiApiKey: boolean = false;
   editingTogetherApiKey: boolean = false;
+  editingOpenAiApiKey: boolean = false;
+  editingTranscriptServiceApiKey: boolean = false;
 
-  constructor(private storage: Storage) {
+  constructor(
+    private storage: Storage,
+    private library: Library,
+    private profileService: Profiles
+  ) {
     this.loadSettings();
+    // Keys appear and disappear as the vault is unlocked and locked
+    this.vaultSubscription = this.storage.vaultState$.subscribe(state => {
+      this.vaultState = state;
+      if (state === 'locked') {
+        // Keys cannot be saved until the vault is unlocked again
+        this.editingApiKey = false;
+        this.editingGeminiApiKey = false;
+        this.editingTogetherApiKey = false;
+        this.editingOpenAiApiKey = false;
+        this.editingTranscriptServiceApiKey = false;
+      } else {
+        this.keyMessage = '';
+      }
+      this.loadSettings();
+    });
+    // A profile switch replaces the keys and preferences shown here
+    this.profileSubscription = this.profileService.changes$.subscribe(() => this.loadSettings());
+  }
+
+  ngOnDestroy(): void {
+    this.vaultSubscription.unsubscribe();
+    this.profileSubscription.unsubscribe();
   }
 
   /**
@@ -49,27 +139,304 @@ export class Settings {
 
   loadSettings(): void {
     const savedKey = this.storage.getApiKey();
-    if (savedKey) {
-      this.apiKey = savedKey;
-      this.displayApiKey = this.maskApiKey(savedKey);
-    }
+    this.apiKey = savedKey || '';
+    this.displayApiKey = savedKey ? this.maskApiKey(savedKey) : '';
     
     const savedGeminiKey = this.storage.getGeminiApiKey();
-    if (savedGeminiKey) {
-      this.geminiApiKey = savedGeminiKey;
-      this.displayGeminiApiKey = this.maskApiKey(savedGeminiKey);
-    }
+    this.geminiApiKey = savedGeminiKey || '';
+    this.displayGeminiApiKey = savedGeminiKey ? this.maskApiKey(savedGeminiKey) : '';
     
     const savedTogetherKey = this.storage.getTogetherApiKey();
-    if (savedTogetherKey) {
-      this.togetherApiKey = savedTogetherKey;
-      this.displayTogetherApiKey = this.maskApiKey(savedTogetherKey);
-    }
+    this.togetherApiKey = savedTogetherKey || '';
+    this.displayTogetherApiKey = savedTogetherKey ? this.maskApiKey(savedTogetherKey) : '';
     
+    const savedOpenAiKey = this.storage.getOpenAiApiKey();
+    this.openAiApiKey = savedOpenAiKey || '';
+    this.displayOpenAiApiKey = savedOpenAiKey ? this.maskApiKey(savedOpenAiKey) : '';
+
+    const savedTranscriptServiceKey = this.storage.getTranscriptServiceApiKey();
+    this.transcriptServiceApiKey = savedTranscriptServiceKey || '';
+    this.displayTranscriptServiceApiKey = savedTranscriptServiceKey ? this.maskApiKey(savedTranscriptServiceKey) : '';
+
+    this.transcriptProvider = this.storage.getTranscriptProvider();
+    this.transcriptFallbackProvider = this.storage.getTranscriptFallbackProvider() || '';
+    this.transcriptBaseUrl = this.storage.getTranscriptBaseUrl(this.transcriptProvider);
+    this.transcriptFieldMapping = this.storage.getTranscriptFieldMapping();
+
+    this.llmProvider = this.storage.getLlmProvider();
+    this.loadProviderEndpoint();
+
+    this.summaryLanguage = this.storage.getSummaryLanguage();
+    this.transcriptLanguage = this.storage.getTranscriptLanguage();
+
+    this.ttsVoice = this.storage.getTtsVoice();
+    this.ttsPlaybackRate = this.storage.getTtsPlaybackRate();
+
+    this.cacheTtlHours = this.storage.getTranscriptCacheTtlHours();
+    this.vaultIdleMinutes = this.storage.getVaultIdleMinutes();
+
     this.creditsRemaining = this.storage.getCreditsRemaining();
+
+    this.profiles = this.profileService.getAll();
+    this.activeProfileId = this.profileService.getActiveId();
+  }
+
+  /**
+   * Load the base URL and model saved for the selected provider
+   */
+  loadProviderEndpoint(): void {
+    this.llmBaseUrl = this.storage.getLlmBaseUrl(this.llmProvider);
+    this.llmModel = this.storage.getLlmModel(this.llmProvider);
+  }
+
+  onProviderChange(): void {
+    this.storage.setLlmProvider(this.llmProvider);
+    this.loadProviderEndpoint();
+    this.apiKeyUpdated.emit(this.llmProvider);
+  }
+
+  /**
+   * Save the endpoint, resetting blank fields to the provider default
+   */
+  saveProviderEndpoint(): void {
+    const defaults = LLM_PROVIDER_DEFAULTS[this.llmProvider];
+    const baseUrl = this.llmBaseUrl.trim();
+    const model = this.llmModel.trim();
+    this.storage.setLlmBaseUrl(this.llmProvider, baseUrl && baseUrl !== defaults.baseUrl ? baseUrl : '');
+    this.storage.setLlmModel(this.llmProvider, model && model !== defaults.model ? model : '');
+    this.loadProviderEndpoint();
+  }
+
+  onTranscriptProviderChange(): void {
+    this.storage.setTranscriptProvider(this.transcriptProvider);
+    if (this.transcriptFallbackProvider === this.transcriptProvider) {
+      this.transcriptFallbackProvider = '';
+    }
+    this.saveTranscriptFallbackProvider();
+    this.transcriptBaseUrl = this.storage.getTranscriptBaseUrl(this.transcriptProvider);
+    this.apiKeyUpdated.emit(this.transcriptProvider);
+  }
+
+  saveTranscriptFallbackProvider(): void {
+    this.storage.setTranscriptFallbackProvider(this.transcriptFallbackProvider || null);
+  }
+
+  /**
+   * Save the transcript endpoint and field mapping, resetting a blank URL to the provider default
+   */
+  saveTranscriptEndpoint(): void {
+    const baseUrl = this.transcriptBaseUrl.trim();
+    const defaultUrl = TRANSCRIPT_PROVIDER_DEFAULTS[this.transcriptProvider].baseUrl;
+    this.storage.setTranscriptBaseUrl(this.transcriptProvider, baseUrl && baseUrl !== defaultUrl ? baseUrl : '');
+    this.transcriptBaseUrl = this.storage.getTranscriptBaseUrl(this.transcriptProvider);
+    if (this.transcriptProvider === 'json') {
+      this.storage.setTranscriptFieldMapping({
+        ...this.transcriptFieldMapping,
+        items: this.transcriptFieldMapping.items.trim(),
+        text: this.transcriptFieldMapping.text.trim(),
+        start: this.transcriptFieldMapping.start.trim(),
+        end: this.transcriptFieldMapping.end.trim(),
+        duration: this.transcriptFieldMapping.duration.trim()
+      });
+    }
+  }
+
+  getDefaultTranscriptBaseUrl(): string {
+    return TRANSCRIPT_PROVIDER_DEFAULTS[this.transcriptProvider].baseUrl || 'https://example.com/transcripts/{videoId}?lang={language}';
+  }
+
+  /**
+   * Encrypt the API keys with a new passphrase
+   */
+  async enableVault(): Promise<void> {
+    if (!this.checkNewPassphrase()) {
+      return;
+    }
+    await this.runVaultAction(() => this.storage.enableVault(this.vaultNewPassphrase), 'Key vault enabled. Your API keys are now encrypted.');
+  }
+
+  async changeVaultPassphrase(): Promise<void> {
+    if (!this.vaultCurrentPassphrase) {
+      this.vaultMessage = 'Enter your current passphrase.';
+      return;
+    }
+    if (!this.checkNewPassphrase()) {
+      return;
+    }
+    await this.runVaultAction(
+      () => this.storage.changeVaultPassphrase(this.vaultCurrentPassphrase, this.vaultNewPassphrase),
+      'Passphrase changed.'
+    );
+  }
+
+  /**
+   * Decrypt the keys back to plain local storage
+   */
+  async disableVault(): Promise<void> {
+    if (!this.vaultCurrentPassphrase) {
+      this.vaultMessage = 'Enter your current passphrase to disable the vault.';
+      return;
+    }
+    await this.runVaultAction(() => this.storage.disableVault(this.vaultCurrentPassphrase), 'Key vault disabled.');
+  }
+
+  lockVault(): void {
+    this.storage.lockVault();
+    this.closeModal();
+  }
+
+  saveVaultIdleMinutes(): void {
+    const minutes = Number(this.vaultIdleMinutes);
+    this.storage.setVaultIdleMinutes(isNaN(minutes) ? 0 : minutes);
+    this.vaultIdleMinutes = this.storage.getVaultIdleMinutes();
+  }
+
+  private checkNewPassphrase(): boolean {
+    if (this.vaultNewPassphrase.length < this.MIN_PASSPHRASE_LENGTH) {
+      this.vaultMessage = `Use a passphrase of at least ${this.MIN_PASSPHRASE_LENGTH} characters.`;
+      return false;
+    }
+    if (this.vaultNewPassphrase !== this.vaultConfirmPassphrase) {
+      this.vaultMessage = 'The passphrases do not match.';
+      return false;
+    }
+    return true;
+  }
+
+  private async runVaultAction(action: () => Promise<void>, successMessage: string): Promise<void> {
+    this.vaultBusy = true;
+    this.vaultMessage = '';
+    try {
+      await action();
+      this.vaultMessage = successMessage;
+      this.vaultCurrentPassphrase = '';
+      this.vaultNewPassphrase = '';
+      this.vaultConfirmPassphrase = '';
+    } catch (err: any) {
+      console.error('Key vault error:', err);
+      this.vaultMessage = err?.message || 'Key vault operation failed.';
+    } finally {
+      this.vaultBusy = false;
+    }
+  }
+
+  /**
+   * Save the current keys and preferences as a new named profile
+   */
+  saveProfile(): void {
+    if (!this.newProfileName.trim()) {
+      this.profileMessage = 'Enter a name for the profile.';
+      return;
+    }
+    this.runProfileAction(() => {
+      // Include edits made in this dialog that have not been saved yet
+      this.saveProviderEndpoint();
+      this.saveTranscriptEndpoint();
+      const profile = this.profileService.saveCurrentAs(this.newProfileName);
+      this.newProfileName = '';
+      return `Saved the "${profile.name}" profile.`;
+    });
   }
 
-  startEditing(keyType: 'apiKey' | 'geminiApiKey' | 'togetherApiKey'): void {
+  deleteActiveProfile(): void {
+    const profile = this.profiles.find(p => p.id === this.activeProfileId);
+    if (!profile || !confirm(`Delete the "${profile.name}" profile? Your current settings stay as they are.`)) {
+      return;
+    }
+    this.runProfileAction(() => {
+      this.profileService.delete(profile.id);
+      return `Deleted the "${profile.name}" profile.`;
+    });
+  }
+
+  exportProfiles(): void {
+    this.runProfileAction(() => {
+      this.profileService.downloadProfiles(this.includeKeysInExport);
+      return this.includeKeysInExport ? 'Profiles exported with API keys. Keep the file private.' : 'Profiles exported without API keys.';
+    });
+  }
+
+  async importProfiles(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    try {
+      const text = await file.text();
+      this.runProfileAction(() => {
+        const count = this.profileService.importProfiles(text);
+        return `Imported ${count} profile${count === 1 ? '' : 's'}.`;
+      });
+    } finally {
+      // Allow importing the same file again
+      input.value = '';
+    }
+  }
+
+  private runProfileAction(action: () => string): void {
+    try {
+      this.profileMessage = action();
+    } catch (err: any) {
+      console.error('Profile error:', err);
+      this.profileMessage = err?.message || 'Profile operation failed.';
+    }
+  }
+
+  saveLanguages(): void {
+    this.storage.setSummaryLanguage(this.summaryLanguage);
+    this.storage.setTranscriptLanguage(this.transcriptLanguage);
+  }
+
+  saveTts(): void {
+    this.storage.setTtsVoice(this.ttsVoice);
+    this.storage.setTtsPlaybackRate(Number(this.ttsPlaybackRate));
+  }
+
+  async clearSavedAudio(): Promise<void> {
+    try {
+      await this.library.clearAudio();
+      this.audioMessage = 'Saved audio cleared.';
+    } catch (err: any) {
+      console.error('Failed to clear saved audio:', err);
+      this.audioMessage = err?.message || 'Failed to clear saved audio.';
+    }
+  }
+
+  saveCacheTtl(): void {
+    const hours = Number(this.cacheTtlHours);
+    this.storage.setTranscriptCacheTtlHours(isNaN(hours) ? 0 : hours);
+    this.cacheTtlHours = this.storage.getTranscriptCacheTtlHours();
+  }
+
+  async clearTranscriptCache(): Promise<void> {
+    try {
+      await this.library.clearTranscriptCache();
+      this.cacheMessage = 'Transcript cache cleared.';
+    } catch (err: any) {
+      console.error('Failed to clear transcript cache:', err);
+      this.cacheMessage = err?.message || 'Failed to clear the transcript cache.';
+    }
+  }
+
+  getDefaultBaseUrl(): string {
+    return LLM_PROVIDER_DEFAULTS[this.llmProvider].baseUrl;
+  }
+
+  getDefaultModel(): string {
+    return LLM_PROVIDER_DEFAULTS[this.llmProvider].model;
+  }
+
+  /** API keys cannot be viewed or changed while the vault is locked */
+  get keysLocked(): boolean {
+    return this.vaultState === 'locked';
+  }
+
+  startEditing(keyType: 'apiKey' | 'geminiApiKey' | 'togetherApiKey' | 'openAiApiKey' | 'transcriptServiceApiKey'): void {
+    if (this.keysLocked) {
+      return;
+    }
     if (keyType === 'apiKey') {
       this.editingApiKey = true;
       this.displayApiKey = this.apiKey;
@@ -92,10 +459,24 @@ export class Settings {
         const input = document.getElementById('togetherApiKey') as HTMLInputElement;
         if (input) input.select();
       }, 10);
+    } else if (keyType === 'openAiApiKey') {
+      this.editingOpenAiApiKey = true;
+      this.displayOpenAiApiKey = this.openAiApiKey;
+      setTimeout(() => {
+        const input = document.getElementById('openAiApiKey') as HTMLInputElement;
+        if (input) input.select();
+      }, 10);
+    } else if (keyType === 'transcriptServiceApiKey') {
+      this.editingTranscriptServiceApiKey = true;
+      this.displayTranscriptServiceApiKey = this.transcriptServiceApiKey;
+      setTimeout(() => {
+        const input = document.getElementById('transcriptServiceApiKey') as HTMLInputElement;
+        if (input) input.select();
+      }, 10);
     }
   }
 
-  cancelEditing(keyType: 'apiKey' | 'geminiApiKey' | 'togetherApiKey'): void {
+  cancelEditing(keyType: 'apiKey' | 'geminiApiKey' | 'togetherApiKey' | 'openAiApiKey' | 'transcriptServiceApiKey'): void {
     if (keyType === 'apiKey') {
       this.editingApiKey = false;
       this.displayApiKey = this.maskApiKey(this.apiKey);
@@ -105,6 +486,12 @@ export class Settings {
     } else if (keyType === 'togetherApiKey') {
       this.editingTogetherApiKey = false;
       this.displayTogetherApiKey = this.maskApiKey(this.togetherApiKey);
+    } else if (keyType === 'openAiApiKey') {
+      this.editingOpenAiApiKey = false;
+      this.displayOpenAiApiKey = this.maskApiKey(this.openAiApiKey);
+    } else if (keyType === 'transcriptServiceApiKey') {
+      this.editingTranscriptServiceApiKey = false;
+      this.displayTranscriptServiceApiKey = this.maskApiKey(this.transcriptServiceApiKey);
     }
   }
 
@@ -113,9 +500,8 @@ export class Settings {
     if (newKey) {
       // Check if it's different from the masked version or the original
       const masked = this.maskApiKey(this.apiKey);
-      if (newKey !== masked && newKey !== this.apiKey) {
+      if (newKey !== masked && newKey !== this.apiKey && this.storeKey(() => this.storage.setApiKey(newKey))) {
         this.apiKey = newKey;
-        this.storage.setApiKey(newKey);
         this.apiKeyUpdated.emit(newKey);
       }
     }
@@ -127,9 +513,8 @@ export class Settings {
     const newKey = this.displayGeminiApiKey.trim();
     if (newKey) {
       const masked = this.maskApiKey(this.geminiApiKey);
-      if (newKey !== masked && newKey !== this.geminiApiKey) {
+      if (newKey !== masked && newKey !== this.geminiApiKey && this.storeKey(() => this.storage.setGeminiApiKey(newKey))) {
         this.geminiApiKey = newKey;
-        this.storage.setGeminiApiKey(newKey);
         this.apiKeyUpdated.emit(newKey);
       }
     }
@@ -141,9 +526,8 @@ export class Settings {
     const newKey = this.displayTogetherApiKey.trim();
     if (newKey) {
       const masked = this.maskApiKey(this.togetherApiKey);
-      if (newKey !== masked && newKey !== this.togetherApiKey) {
+      if (newKey !== masked && newKey !== this.togetherApiKey && this.storeKey(() => this.storage.setTogetherApiKey(newKey))) {
         this.togetherApiKey = newKey;
-        this.storage.setTogetherApiKey(newKey);
         this.apiKeyUpdated.emit(newKey);
       }
     }
@@ -151,10 +535,61 @@ export class Settings {
     this.displayTogetherApiKey = this.maskApiKey(this.togetherApiKey);
   }
 
+  saveOpenAiApiKey(): void {
+    const newKey = this.displayOpenAiApiKey.trim();
+    if (newKey) {
+      const masked = this.maskApiKey(this.openAiApiKey);
+      if (newKey !== masked && newKey !== this.openAiApiKey && this.storeKey(() => this.storage.setOpenAiApiKey(newKey))) {
+        this.openAiApiKey = newKey;
+        this.apiKeyUpdated.emit(newKey);
+      }
+    }
+    this.editingOpenAiApiKey = false;
+    this.displayOpenAiApiKey = this.maskApiKey(this.openAiApiKey);
+  }
+
+  saveTranscriptServiceApiKey(): void {
+    const newKey = this.displayTranscriptServiceApiKey.trim();
+    if (newKey) {
+      const masked = this.maskApiKey(this.transcriptServiceApiKey);
+      if (newKey !== masked && newKey !== this.transcriptServiceApiKey && this.storeKey(() => this.storage.setTranscriptServiceApiKey(newKey))) {
+        this.transcriptServiceApiKey = newKey;
+        this.apiKeyUpdated.emit(newKey);
+      }
+    }
+    this.editingTranscriptServiceApiKey = false;
+    this.displayTranscriptServiceApiKey = this.maskApiKey(this.transcriptServiceApiKey);
+  }
+
+  /**
+   * Saves a key, showing why when it cannot be saved, e.g. the vault locked while it was being edited
+   */
+  private storeKey(store: () => void): boolean {
+    try {
+      store();
+      this.keyMessage = '';
+      return true;
+    } catch (err: any) {
+      console.error('Failed to save API key:', err);
+      this.keyMessage = err?.message || 'The API key could not be saved.';
+      return false;
+    }
+  }
+
   saveAllKeys(): void {
     this.saveApiKey();
     this.saveGeminiApiKey();
     this.saveTogetherApiKey();
+    this.saveOpenAiApiKey();
+    this.saveTranscriptServiceApiKey();
+    this.saveTranscriptEndpoint();
+    this.saveProviderEndpoint();
+    this.saveLanguages();
+    this.saveTts();
+    this.saveCacheTtl();
+    if (this.vaultState === 'unlocked') {
+      this.saveVaultIdleMinutes();
+    }
     this.closeModal();
   }
 
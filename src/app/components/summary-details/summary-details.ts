@@ -0,0 +1,53 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TranscriptItem } from '../../services/api';
+import { Summary, SummaryEntityType, SummaryResult, TranscriptChapter } from '../../services/summary';
+
+@Component({
+  selector: 'app-summary-details',
+  imports: [CommonModule],
+  templateUrl: './summary-details.html',
+  styleUrl: './summary-details.css',
+})
+export class SummaryDetails implements OnChanges {
+  @Input() result: SummaryResult | null = null;
+  @Input() transcript: TranscriptItem[] = [];
+  @Output() chapterClick = new EventEmitter<TranscriptChapter>();
+
+  chapters: TranscriptChapter[] = []; // Model chapters matched to transcript lines
+
+  readonly entityLabels: Record<SummaryEntityType, string> = {
+    person: 'People',
+    organization: 'Organizations',
+    place: 'Places',
+    product: 'Products',
+    other: 'Other'
+  };
+
+  constructor(private summaryService: Summary) {}
+
+  ngOnChanges(): void {
+    this.chapters = this.summaryService.resolveChapters(this.result?.chapters || [], this.transcript);
+  }
+
+  /**
+   * Chapter length as M:SS
+   */
+  formatDuration(ms: number): string {
+    const totalSeconds = Math.max(0, Math.round(ms / 1000));
+    return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+  }
+
+  /**
+   * Mentioned entities grouped by type, in a fixed order
+   */
+  get entityGroups(): Array<{ label: string; names: string[] }> {
+    const entities = this.result?.entities || [];
+    return (Object.keys(this.entityLabels) as SummaryEntityType[])
+      .map(type => ({
+        label: this.entityLabels[type],
+        names: entities.filter(entity => entity.type === type).map(entity => entity.name)
+      }))
+      .filter(group => group.names.length > 0);
+  }
+}
@@ -0,0 +1,125 @@
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { CommonModule } from '@angular/common';
+import { SummaryTemplate, TEMPLATE_PLACEHOLDERS, TemplateDisplay, Templates } from '../../services/templates';
+
+@Component({
+  selector: 'app-template-editor',
+  imports: [FormsModule, CommonModule],
+  templateUrl: './template-editor.html',
+  styleUrl: './template-editor.css',
+})
+export class TemplateEditor implements OnChanges {
+  @Input() isOpen: boolean = false;
+  @Output() close = new EventEmitter<void>();
+  @Output() templatesChanged = new EventEmitter<void>();
+
+  readonly placeholders = TEMPLATE_PLACEHOLDERS;
+  readonly displayOptions: Array<{ value: TemplateDisplay; label: string }> = [
+    { value: 'paragraphs', label: 'Paragraphs' },
+    { value: 'bullets', label: 'Bullet points' },
+    { value: 'timestamps', label: 'Timestamped points' },
+    { value: 'chapters', label: 'Chapters' }
+  ];
+
+  templates: SummaryTemplate[] = [];
+  selectedId: string = '';
+  draft: SummaryTemplate | null = null; // Working copy of the selected template
+  message: string = '';
+
+  constructor(private templateService: Templates) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['isOpen'] && this.isOpen) {
+      this.loadTemplates();
+      this.select(this.templates[0]);
+    }
+  }
+
+  select(template: SummaryTemplate): void {
+    this.selectedId = template.id;
+    this.draft = { ...template };
+    this.message = '';
+  }
+
+  createTemplate(): void {
+    this.selectedId = '';
+    this.draft = {
+      id: '',
+      name: 'New template',
+      display: 'paragraphs',
+      prompt: 'Summarize the following YouTube video transcript in about {{length_percentage}}% of its length, written in {{language}}.\n\nTranscript:\n{{transcript}}'
+    };
+    this.message = '';
+  }
+
+  /**
+   * Starts a new custom template from a copy of the current one
+   */
+  duplicateTemplate(): void {
+    if (!this.draft) {
+      return;
+    }
+    this.selectedId = '';
+    this.draft = { ...this.draft, id: '', name: `${this.draft.name} (copy)`, builtIn: false };
+    this.message = '';
+  }
+
+  saveTemplate(): void {
+    if (!this.draft || this.draft.builtIn) {
+      return;
+    }
+    if (!this.draft.prompt.trim()) {
+      this.message = 'The prompt cannot be empty.';
+      return;
+    }
+
+    const saved = this.templateService.save(this.draft);
+    this.loadTemplates();
+    this.select(saved);
+    this.message = 'Template saved.';
+    this.templatesChanged.emit();
+  }
+
+  deleteTemplate(): void {
+    if (!this.draft || this.draft.builtIn || !this.draft.id) {
+      return;
+    }
+    if (!confirm(`Delete the "${this.draft.name}" template?`)) {
+      return;
+    }
+
+    this.templateService.delete(this.draft.id);
+    this.loadTemplates();
+    this.select(this.templates[0]);
+    this.templatesChanged.emit();
+  }
+
+  insertPlaceholder(token: string, textarea: HTMLTextAreaElement): void {
+    if (!this.draft || this.draft.builtIn) {
+      return;
+    }
+    const start = textarea.selectionStart ?? this.draft.prompt.length;
+    const end = textarea.selectionEnd ?? start;
+    this.draft.prompt = this.draft.prompt.slice(0, start) + token + this.draft.prompt.slice(end);
+    setTimeout(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + token.length, start + token.length);
+    });
+  }
+
+  closeModal(): void {
+    this.isOpen = false;
+    this.close.emit();
+  }
+
+  onBackdropClick(event: Event): void {
+    if (event.target === event.currentTarget) {
+      this.closeModal();
+    }
+  }
+
+  private loadTemplates(): void {
+    this.templates = this.templateService.getAll();
+  }
+}
@@ -0,0 +1,65 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TranscriptItem } from '../../services/api';
+import { TRANSCRIPT_FILE_EXTENSIONS, parseTranscriptFile } from '../../services/transcript-file';
+
+export interface UploadedTranscript {
+  fileName: string;
+  transcript: TranscriptItem[];
+}
+
+@Component({
+  selector: 'app-transcript-upload',
+  imports: [CommonModule],
+  templateUrl: './transcript-upload.html',
+  styleUrl: './transcript-upload.css',
+})
+export class TranscriptUpload {
+  @Input() disabled: boolean = false;
+  @Output() uploaded = new EventEmitter<UploadedTranscript>();
+
+  readonly accept = TRANSCRIPT_FILE_EXTENSIONS;
+  dragging: boolean = false;
+  error: string = '';
+
+  onDragOver(event: DragEvent): void {
+    event.preventDefault();
+    if (!this.disabled) {
+      this.dragging = true;
+    }
+  }
+
+  onDragLeave(): void {
+    this.dragging = false;
+  }
+
+  onDrop(event: DragEvent): void {
+    event.preventDefault();
+    this.dragging = false;
+    const file = event.dataTransfer?.files?.[0];
+    if (file && !this.disabled) {
+      this.readFile(file);
+    }
+  }
+
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (file) {
+      this.readFile(file);
+    }
+    // Allow choosing the same file again
+    input.value = '';
+  }
+
+  private async readFile(file: File): Promise<void> {
+    this.error = '';
+    try {
+      const text = await file.text();
+      this.uploaded.emit({ fileName: file.name, transcript: parseTranscriptFile(text, file.name) });
+    } catch (err: any) {
+      console.error('Failed to read transcript file:', err);
+      this.error = err?.message || 'Failed to read the transcript file.';
+    }
+  }
+}
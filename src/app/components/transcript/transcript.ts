@@ -0,0 +1,205 @@
+import { ChangeDetectorRef, Component, ElementRef, EventEmitter, Input, OnChanges, Output, SimpleChanges, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { TranscriptItem } from '../../services/api';
+
+interface TextSegment {
+  text: string;
+  match: boolean;
+  current: boolean;
+}
+
+interface SearchMatch {
+  lineIndex: number;
+  start: number;
+  end: number;
+}
+
+@Component({
+  selector: 'app-transcript',
+  imports: [CommonModule, FormsModule],
+  templateUrl: './transcript.html',
+  styleUrl: './transcript.css',
+})
+export class Transcript implements OnChanges {
+  @Input() items: TranscriptItem[] = [];
+  @Input() activeIndex: number | null = null; // Line currently playing in the video
+  @Input() translation: TranscriptItem[] | null = null; // Parallel translated lines, shown beside the originals
+  @Input() translationLabel: string = '';
+  @Output() lineClick = new EventEmitter<number>();
+  @Output() copyLines = new EventEmitter<string>(); // Matching lines formatted with timestamps
+
+  @ViewChild('transcriptContent') transcriptContent?: ElementRef<HTMLElement>;
+
+  expanded: boolean = false;
+  followPlayback: boolean = true;
+  flashIndex: number | null = null;
+  private flashTimeout: any = null;
+
+  // Search
+  searchQuery: string = '';
+  matchCase: boolean = false;
+  wholeWord: boolean = false;
+  matches: SearchMatch[] = [];
+  currentMatch: number = -1;
+  private matchLines = new Set<number>();
+  private lineSegments = new Map<number, TextSegment[]>();
+
+  constructor(private cdr: ChangeDetectorRef) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['items']) {
+      this.runSearch();
+    }
+    if (changes['activeIndex'] && this.followPlayback && this.activeIndex !== null) {
+      this.scrollLineIntoView(this.activeIndex);
+    }
+  }
+
+  /**
+   * Expand the transcript, scroll a line into view and briefly highlight it
+   */
+  scrollToLine(index: number): void {
+    if (index < 0 || index >= this.items.length) {
+      return;
+    }
+
+    this.expanded = true;
+    this.flashIndex = index;
+    this.cdr.detectChanges();
+
+    const line = document.getElementById(`transcript-line-${index}`);
+    line?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+    if (this.flashTimeout) {
+      clearTimeout(this.flashTimeout);
+    }
+    this.flashTimeout = setTimeout(() => {
+      this.flashIndex = null;
+      this.cdr.detectChanges();
+    }, 2000);
+  }
+
+  /**
+   * Recompute matches for the current query and options
+   */
+  runSearch(): void {
+    this.matches = [];
+    this.matchLines.clear();
+    this.lineSegments.clear();
+    this.currentMatch = -1;
+
+    const query = this.searchQuery.trim();
+    if (!query) {
+      return;
+    }
+
+    const escaped = query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const source = this.wholeWord ? `(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])` : escaped;
+    const pattern = new RegExp(source, this.matchCase ? 'gu' : 'giu');
+
+    this.items.forEach((item, lineIndex) => {
+      for (const match of item.text.matchAll(pattern)) {
+        const start = match.index ?? 0;
+        this.matches.push({ lineIndex, start, end: start + match[0].length });
+        this.matchLines.add(lineIndex);
+      }
+    });
+
+    if (this.matches.length > 0) {
+      this.goToMatch(0);
+    }
+  }
+
+  nextMatch(): void {
+    if (this.matches.length > 0) {
+      this.goToMatch((this.currentMatch + 1) % this.matches.length);
+    }
+  }
+
+  previousMatch(): void {
+    if (this.matches.length > 0) {
+      this.goToMatch((this.currentMatch - 1 + this.matches.length) % this.matches.length);
+    }
+  }
+
+  clearSearch(): void {
+    this.searchQuery = '';
+    this.runSearch();
+  }
+
+  /**
+   * Emit every line containing a match as "[M:SS] text"
+   */
+  copyMatchingLines(): void {
+    const text = [...this.matchLines]
+      .map(index => `[${this.items[index].startTimeText}] ${this.items[index].text}`)
+      .join('\n');
+    if (text) {
+      this.copyLines.emit(text);
+    }
+  }
+
+  isMatchLine(index: number): boolean {
+    return this.matchLines.has(index);
+  }
+
+  /**
+   * Line text split into plain and highlighted parts
+   */
+  getSegments(index: number): TextSegment[] {
+    const cached = this.lineSegments.get(index);
+    if (cached) {
+      return cached;
+    }
+
+    const text = this.items[index].text;
+    const segments: TextSegment[] = [];
+    let position = 0;
+    this.matches.forEach((match, matchIndex) => {
+      if (match.lineIndex !== index) {
+        return;
+      }
+      if (match.start > position) {
+        segments.push({ text: text.substring(position, match.start), match: false, current: false });
+      }
+      segments.push({ text: text.substring(match.start, match.end), match: true, current: matchIndex === this.currentMatch });
+      position = match.end;
+    });
+    if (position < text.length) {
+      segments.push({ text: text.substring(position), match: false, current: false });
+    }
+
+    this.lineSegments.set(index, segments);
+    return segments;
+  }
+
+  private goToMatch(matchIndex: number): void {
+    // Only the lines holding the old and new current match need re-rendering
+    const previous = this.matches[this.currentMatch];
+    if (previous) {
+      this.lineSegments.delete(previous.lineIndex);
+    }
+    this.currentMatch = matchIndex;
+    const lineIndex = this.matches[matchIndex].lineIndex;
+    this.lineSegments.delete(lineIndex);
+
+    this.expanded = true;
+    this.cdr.detectChanges();
+    this.scrollLineIntoView(lineIndex);
+  }
+
+  /**
+   * Scroll within the transcript box only, so playback doesn't move the page
+   */
+  private scrollLineIntoView(index: number): void {
+    const container = this.transcriptContent?.nativeElement;
+    const line = document.getElementById(`transcript-line-${index}`);
+    if (!container || !line) {
+      return;
+    }
+
+    const top = line.offsetTop - container.clientHeight / 2 + line.clientHeight / 2;
+    container.scrollTo({ top: Math.max(0, top), behavior: 'smooth' });
+  }
+}
@@ -1,8 +1,12 @@
 import { Injectable } from '@angular/core';
 import { HttpClient, HttpHeaders, HttpParams } from '@angular/common/http';
-import { Observable, throwError } from 'rxjs';
-import { catchError } from 'rxjs/operators';
+import { Observable, defer, from, of, throwError } from 'rxjs';
+import { catchError, concatMap, map, switchMap, tap } from 'rxjs/operators';
 import { Storage } from './storage';
+import { Library } from './library';
+import { DEFAULT_TTS_VOICE } from './tts-voices';
+import { ApiError, ApiErrorKind, describeApiError, isApiError, missingKeyError, withApiErrors } from './errors';
+import { TRANSCRIPT_PROVIDER_DEFAULTS, TranscriptProvider, TranscriptProviderType, createTranscriptProvider } from './transcript-provider';
 
 export interface TranscriptItem {
   text: string;
@@ -13,22 +17,64 @@ export interface TranscriptItem {
 
 export interface TranscriptResponse {
   success: boolean;
-  credits_remaining: number;
+  credits_remaining?: number; // Only sent by Scrape Creators
   videoId: string;
   type: string;
   url: string;
   transcript: TranscriptItem[];
+  cachedAt?: number; // Set when served from the local transcript cache
+  provider?: TranscriptProviderType; // Transcript provider that answered
 }
 
+export interface VideoListItem {
+  videoId: string;
+  title?: string;
+}
+
+export interface VideoListResponse {
+  videos: VideoListItem[];
+  credits_remaining?: number;
+}
+
+/**
+ * Scrape Creators playlist and channel-videos responses, which nest the list differently
+ */
+interface ScrapeCreatorsVideoList {
+  videos?: ScrapeCreatorsVideo[];
+  playlist?: { videos?: ScrapeCreatorsVideo[] };
+  items?: ScrapeCreatorsVideo[];
+  credits_remaining?: number;
+}
+
+interface ScrapeCreatorsVideo {
+  videoId?: string;
+  id?: string;
+  title?: string;
+}
+
+/**
+ * What a pasted URL or list of URLs refers to
+ */
+export type VideoSource =
+  | { type: 'video'; id: string }
+  | { type: 'playlist'; id: string }
+  | { type: 'channel'; id: string };
+
 @Injectable({
   providedIn: 'root',
 })
 export class Api {
-  private readonly API_BASE_URL = 'https://api.scrapecreators.com/v1/youtube/video/transcript';
+  private readonly PLAYLIST_API_URL = 'https://api.scrapecreators.com/v1/youtube/playlist';
+  private readonly CHANNEL_VIDEOS_API_URL = 'https://api.scrapecreators.com/v1/youtube/channel-videos';
+  private readonly SCRAPE_CREATORS_SERVICE = 'Scrape Creators'; // Playlist and channel listing; transcripts go through the selected provider
+  private readonly TTS_SERVICE = 'Together.ai';
+  // Errors after which the fallback transcript provider is tried
+  private readonly FALLBACK_ERROR_KINDS: ApiErrorKind[] = ['no-captions', 'out-of-credits'];
 
   constructor(
     private http: HttpClient,
-    private storage: Storage
+    private storage: Storage,
+    private library: Library
   ) {}
 
   /**
@@ -40,7 +86,7 @@ export class Api {
 
     // Patterns for different YouTube URL formats
     const patterns = [
-      /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/|m\.youtube\.com\/watch\?v=|youtube\.com\/v\/)([^&\n?#]+)/,
+      /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/|m\.youtube\.com\/watch\?v=|youtube\.com\/v\/|youtube\.com\/shorts\/|youtube\.com\/live\/)([^&\n?#]+)/,
       /^([a-zA-Z0-9_-]{11})$/ // Direct video ID
     ];
 
@@ -54,41 +100,220 @@ export class Api {
     return null;
   }
 
-  getTranscript(videoUrlOrId: string): Observable<TranscriptResponse> {
-    const videoId = this.extractVideoId(videoUrlOrId);
-    
-    if (!videoId) {
-      throw new Error('Invalid YouTube URL or video ID');
+  /**
+   * Finds the first YouTube video link in free text, such as the text shared from the YouTube app
+   */
+  findVideoId(text: string): string | null {
+    for (const token of text.split(/\s+/)) {
+      const videoId = /youtu\.?be/.test(token) ? this.extractVideoId(token) : null;
+      if (videoId) {
+        return videoId;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Extracts a playlist ID from youtube.com/playlist?list= URLs
+   */
+  extractPlaylistId(url: string): string | null {
+    const match = url.trim().match(/youtube\.com\/playlist\?(?:.*&)?list=([a-zA-Z0-9_-]+)/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Extracts a channel handle (@name) or channel ID (UC...) from channel URLs
+   */
+  extractChannel(url: string): string | null {
+    const match = url.trim().match(/youtube\.com\/(?:(@[a-zA-Z0-9._-]+)|channel\/(UC[a-zA-Z0-9_-]+))/);
+    return match ? (match[1] || match[2]) : null;
+  }
+
+  /**
+   * Splits pasted text (one or many URLs, separated by whitespace or commas) into video,
+   * playlist and channel sources, dropping duplicates and anything unrecognized
+   */
+  parseVideoSources(text: string): VideoSource[] {
+    const sources: VideoSource[] = [];
+    const seen = new Set<string>();
+    // Also split URLs pasted back to back without a separator
+    const tokens = text.replace(/(\S)(https?:\/\/)/g, '$1 $2').split(/[\s,]+/).filter(Boolean);
+
+    for (const token of tokens) {
+      let source: VideoSource | null = null;
+      const playlistId = this.extractPlaylistId(token);
+      const channel = playlistId ? null : this.extractChannel(token);
+      const videoId = playlistId || channel ? null : this.extractVideoId(token);
+
+      if (playlistId) {
+        source = { type: 'playlist', id: playlistId };
+      } else if (channel) {
+        source = { type: 'channel', id: channel };
+      } else if (videoId) {
+        source = { type: 'video', id: videoId };
+      }
+
+      if (source && !seen.has(`${source.type}:${source.id}`)) {
+        seen.add(`${source.type}:${source.id}`);
+        sources.push(source);
+      }
     }
 
-    // Format as full YouTube URL: https://www.youtube.com/watch?v={VIDEO_ID}
-    const formattedUrl = `https://www.youtube.com/watch?v=${videoId}`;
+    return sources;
+  }
+
+  /**
+   * Lists the videos in a playlist (uses one Scrape Creators credit, whichever transcript provider is selected)
+   */
+  getPlaylistVideos(playlistId: string): Observable<VideoListResponse> {
+    return this.getVideoList(this.PLAYLIST_API_URL, new HttpParams().set('id', playlistId));
+  }
+
+  /**
+   * Lists a channel's latest videos (uses one Scrape Creators credit, whichever transcript provider is selected)
+   */
+  getChannelVideos(channel: string): Observable<VideoListResponse> {
+    const params = channel.startsWith('@')
+      ? new HttpParams().set('handle', channel.substring(1))
+      : new HttpParams().set('channelId', channel);
+    return this.getVideoList(this.CHANNEL_VIDEOS_API_URL, params);
+  }
 
+  /**
+   * Transcript providers only fetch transcripts, so playlist and channel listing always needs the
+   * Scrape Creators key, even when transcripts come from another provider
+   */
+  private getVideoList(url: string, params: HttpParams): Observable<VideoListResponse> {
     const apiKey = this.storage.getApiKey();
     if (!apiKey) {
-      throw new Error('API key not found. Please set your Scrape Creators API key in settings.');
+      return throwError(() => missingKeyError(this.SCRAPE_CREATORS_SERVICE));
     }
 
     const headers = new HttpHeaders({
       'x-api-key': apiKey
     });
 
-    // Send the formatted URL as the url parameter
-    const params = new HttpParams().set('url', formattedUrl);
+    return this.http.get<ScrapeCreatorsVideoList>(url, { headers, params }).pipe(
+      withApiErrors(this.SCRAPE_CREATORS_SERVICE),
+      map(response => {
+        const list = response?.videos || response?.playlist?.videos || response?.items || [];
+        const videos: VideoListItem[] = list
+          .map(video => ({
+            videoId: video?.videoId || video?.id || '',
+            title: video?.title
+          }))
+          .filter(video => typeof video.videoId === 'string' && video.videoId.length > 0);
+        return { videos, credits_remaining: response?.credits_remaining };
+      })
+    );
+  }
 
-    return this.http.get<TranscriptResponse>(this.API_BASE_URL, {
-      headers,
-      params
-    });
+  /**
+   * Returns the transcript from the local cache when fresh, otherwise fetches it from the
+   * transcript provider selected in settings (trying the fallback provider when that fails)
+   * and caches it. Pass forceRefresh to always fetch again.
+   * Captions are requested in the transcript language from settings, if one is set.
+   */
+  getTranscript(videoUrlOrId: string, forceRefresh: boolean = false): Observable<TranscriptResponse> {
+    const videoId = this.extractVideoId(videoUrlOrId);
+    if (!videoId) {
+      return throwError(() => new ApiError('invalid-input', 'Invalid YouTube URL or video ID', 'YouTube'));
+    }
+
+    const language = this.storage.getTranscriptLanguage();
+    const ttlMs = this.storage.getTranscriptCacheTtlHours() * 60 * 60 * 1000;
+    if (forceRefresh || ttlMs <= 0) {
+      return this.fetchAndCacheTranscript(videoId, language);
+    }
+
+    return from(this.library.getCachedTranscript(videoId, ttlMs, language).catch(() => null)).pipe(
+      switchMap(cached => cached
+        ? of({ ...cached.transcriptData, cachedAt: cached.cachedAt })
+        : this.fetchAndCacheTranscript(videoId, language))
+    );
+  }
+
+  private fetchAndCacheTranscript(videoId: string, language: string): Observable<TranscriptResponse> {
+    return this.fetchTranscript(videoId, language).pipe(
+      tap(response => {
+        if (response?.transcript?.length) {
+          this.library.cacheTranscript(response, language)
+            .catch(err => console.error('Failed to cache transcript:', err));
+        }
+      })
+    );
+  }
+
+  /**
+   * Whether a transcript can be fetched without spending credits that ran out:
+   * false only when every configured provider needs Scrape Creators credits and none are left.
+   * Playlist and channel listing needs Scrape Creators credits regardless; see getVideoList().
+   */
+  hasTranscriptCredits(): boolean {
+    const credits = this.storage.getCreditsRemaining();
+    if (credits === null || credits > 0) {
+      return true;
+    }
+    const fallback = this.storage.getTranscriptFallbackProvider();
+    return !TRANSCRIPT_PROVIDER_DEFAULTS[this.storage.getTranscriptProvider()].usesCredits
+      || (fallback !== null && !TRANSCRIPT_PROVIDER_DEFAULTS[fallback].usesCredits);
+  }
+
+  /**
+   * Fetches from the transcript provider selected in settings. When it has no captions for the
+   * video or no credits left, the fallback provider is tried, if one is set.
+   */
+  private fetchTranscript(videoUrlOrId: string, language: string = ''): Observable<TranscriptResponse> {
+    const videoId = this.extractVideoId(videoUrlOrId);
+    
+    if (!videoId) {
+      return throwError(() => new ApiError('invalid-input', 'Invalid YouTube URL or video ID', 'YouTube'));
+    }
+
+    const primary = this.createTranscriptProvider(this.storage.getTranscriptProvider());
+    const fallbackType = this.storage.getTranscriptFallbackProvider();
+    const fallback = fallbackType ? this.createTranscriptProvider(fallbackType) : null;
+
+    return this.fetchFromProvider(primary, videoId, language).pipe(
+      catchError(error => {
+        if (!fallback || !isApiError(error) || !this.FALLBACK_ERROR_KINDS.includes(error.kind)) {
+          return throwError(() => error);
+        }
+        console.warn(`${error.message} Trying ${fallback.label} instead.`);
+        return this.fetchFromProvider(fallback, videoId, language);
+      })
+    );
+  }
+
+  private createTranscriptProvider(type: TranscriptProviderType): TranscriptProvider {
+    return createTranscriptProvider(this.http, this.storage.getTranscriptProviderConfig(type));
+  }
+
+  private fetchFromProvider(provider: TranscriptProvider, videoId: string, language: string): Observable<TranscriptResponse> {
+    return defer(() => {
+      // Known to be out of credits; skip the request so the fallback can answer
+      const credits = this.storage.getCreditsRemaining();
+      if (TRANSCRIPT_PROVIDER_DEFAULTS[provider.type].usesCredits && credits !== null && credits <= 0) {
+        return throwError(() => new ApiError('out-of-credits', describeApiError('out-of-credits', provider.label), provider.label));
+      }
+      return provider.fetchTranscript(videoId, language);
+    }).pipe(
+      tap(response => {
+        // A successful response without lines means the video has no captions
+        if (!response?.transcript?.length) {
+          throw new ApiError('no-captions', describeApiError('no-captions', provider.label), provider.label);
+        }
+      })
+    );
   }
 
   /**
    * Generate audio using Together.ai API
    */
-  generateAudio(text: string, voice: string = 'af_heart'): Observable<Blob> {
+  generateAudio(text: string, voice: string = DEFAULT_TTS_VOICE): Observable<Blob> {
     const apiKey = this.storage.getTogetherApiKey();
     if (!apiKey) {
-      return throwError(() => new Error('Together.ai API key not found. Please set your API key in settings.'));
+      return throwError(() => missingKeyError(this.TTS_SERVICE));
     }
 
     const headers = new HttpHeaders({
@@ -100,6 +325,7 @@ export class Api {
       model: 'hexgrad/Kokoro-82M',
       input: text,
       voice: voice,
+      response_format: 'mp3', // MP3 clips can be joined into one downloadable file
       stream: false
     };
 
@@ -107,10 +333,20 @@ export class Api {
       headers,
       responseType: 'blob'
     }).pipe(
-      catchError((error) => {
+      withApiErrors(this.TTS_SERVICE),
+      catchError((error: ApiError) => {
         console.error('Together.ai API error:', error);
-        return throwError(() => new Error('Failed to generate audio. Please try again.'));
+        return throwError(() => error);
       })
     );
   }
-}
\ No newline at end of file
+
+  /**
+   * Synthesize text chunks one after another, emitting each clip as soon as it is ready
+   */
+  generateAudioChunks(chunks: string[], voice: string = DEFAULT_TTS_VOICE): Observable<Blob> {
+    return from(chunks).pipe(
+      concatMap(chunk => this.generateAudio(chunk, voice))
+    );
+  }
+}
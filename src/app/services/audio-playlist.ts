@@ -0,0 +1,341 @@
+/**
+ * Text-to-speech playback for long texts: the text is synthesized in sentence-aligned chunks and
+ * the resulting clips play back to back as one track.
+ */
+
+// The first chunk is kept short so playback starts quickly
+const FIRST_CHUNK_CHARS = 250;
+const MAX_CHUNK_CHARS = 1000;
+const METADATA_TIMEOUT_MS = 5000;
+
+export interface AudioPlaylistHandlers {
+  onChange(): void; // Playback state, position or duration changed
+  onEnded(): void;
+  onError(error: Error): void;
+}
+
+interface PlaylistClip {
+  blob: Blob;
+  audio: HTMLAudioElement;
+  url: string;
+  duration: number;
+}
+
+/**
+ * Splits text into sentences, each keeping its closing punctuation and trailing space
+ */
+export function splitSentences(text: string): string[] {
+  return text.match(/[^.!?…]+(?:[.!?…]+["'”’)\]]*|$)\s*/g) || [];
+}
+
+/**
+ * Whitespace-normalized text as it is sent for speech synthesis; text offsets refer to this
+ */
+export function normalizeSpeechText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Splits text on sentence boundaries into chunks for speech synthesis.
+ * Sentences longer than a chunk are split at the last space that fits.
+ */
+export function splitSpeechText(text: string, firstChunkChars: number = FIRST_CHUNK_CHARS, maxChunkChars: number = MAX_CHUNK_CHARS): string[] {
+  const sentences = splitSentences(normalizeSpeechText(text));
+  const chunks: string[] = [];
+  let current = '';
+
+  const limit = () => chunks.length === 0 ? firstChunkChars : maxChunkChars;
+  const flush = () => {
+    if (current.trim()) {
+      chunks.push(current.trim());
+    }
+    current = '';
+  };
+
+  for (let sentence of sentences) {
+    if (current && current.length + sentence.length > limit()) {
+      flush();
+    }
+    while (sentence.length > limit()) {
+      const cut = sentence.lastIndexOf(' ', limit());
+      const end = cut > 0 ? cut : limit();
+      current = sentence.substring(0, end);
+      flush();
+      sentence = sentence.substring(end).trimStart();
+    }
+    current += sentence;
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Plays audio clips in order as a single track. Clips are appended as they are generated;
+ * when playback reaches a clip that is not ready yet it waits and resumes once it arrives.
+ */
+export class AudioPlaylist {
+  private clips: PlaylistClip[] = [];
+  private index = 0; // Clip being played; equals clips.length while waiting for the next one
+  private playing = false; // Playback requested (false while paused or stopped)
+  private destroyed = false;
+  private rate = 1;
+
+  /**
+   * @param textLengths Character count of every chunk, used to estimate the duration of clips not generated yet
+   */
+  constructor(private textLengths: number[], private handlers: AudioPlaylistHandlers) {}
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /** Playback has caught up with generation */
+  get isWaiting(): boolean {
+    return this.playing && this.index >= this.clips.length && this.index < this.textLengths.length;
+  }
+
+  get playbackRate(): number {
+    return this.rate;
+  }
+
+  /** Every clip generated so far, in order */
+  get blobs(): Blob[] {
+    return this.clips.map(clip => clip.blob);
+  }
+
+  get loadedClips(): number {
+    return this.clips.length;
+  }
+
+  get totalClips(): number {
+    return this.textLengths.length;
+  }
+
+  /** Position in seconds across all clips */
+  get currentTime(): number {
+    const before = this.clips.slice(0, this.index).reduce((total, clip) => total + clip.duration, 0);
+    return before + (this.clips[this.index]?.audio.currentTime || 0);
+  }
+
+  /** Total length in seconds, estimated from the text length until every clip is generated */
+  get duration(): number {
+    const known = this.clips.reduce((total, clip) => total + clip.duration, 0);
+    if (this.clips.length === 0 || this.clips.length >= this.textLengths.length) {
+      return known;
+    }
+
+    const knownChars = this.textLengths.slice(0, this.clips.length).reduce((total, length) => total + length, 0);
+    const remainingChars = this.textLengths.slice(this.clips.length).reduce((total, length) => total + length, 0);
+    return known + (knownChars > 0 ? remainingChars * known / knownChars : 0);
+  }
+
+  /**
+   * Playback position as a character offset into the spoken text, interpolated within the current clip
+   */
+  get textOffset(): number {
+    const clip = this.clips[this.index];
+    const start = this.clipTextStart(this.index);
+    if (!clip || !clip.duration) {
+      return start;
+    }
+    return start + Math.round(this.textLengths[this.index] * Math.min(1, clip.audio.currentTime / clip.duration));
+  }
+
+  /**
+   * Time in seconds at which a character offset of the spoken text is read
+   */
+  timeAtTextOffset(offset: number): number {
+    let index = 0;
+    while (index < this.textLengths.length - 1 && offset >= this.clipTextStart(index + 1)) {
+      index++;
+    }
+    const before = this.clips.slice(0, index).reduce((total, clip) => total + clip.duration, 0);
+    const clip = this.clips[index];
+    const fraction = this.textLengths[index] ? (offset - this.clipTextStart(index)) / this.textLengths[index] : 0;
+    return before + (clip ? clip.duration * Math.max(0, Math.min(1, fraction)) : 0);
+  }
+
+  /**
+   * Adds the next generated clip, starting it right away if playback was waiting for it
+   */
+  async append(blob: Blob): Promise<void> {
+    if (this.destroyed) {
+      return;
+    }
+
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio(url);
+    audio.preload = 'auto';
+    // Ensure audio can play in background on mobile
+    audio.setAttribute('playsinline', 'true');
+    audio.setAttribute('webkit-playsinline', 'true');
+
+    let duration: number;
+    try {
+      duration = await this.loadDuration(audio);
+    } catch (err) {
+      URL.revokeObjectURL(url);
+      throw err;
+    }
+    if (this.destroyed) {
+      URL.revokeObjectURL(url);
+      return;
+    }
+
+    audio.playbackRate = this.rate;
+    const clip: PlaylistClip = { blob, audio, url, duration };
+    audio.onended = () => this.advance(clip);
+    audio.onerror = event => {
+      console.error('Audio playback error:', event);
+      this.handlers.onError(new Error('Failed to play audio. Please try again.'));
+    };
+    this.clips.push(clip);
+
+    if (this.isPlaying && this.index === this.clips.length - 1) {
+      await this.playCurrent();
+    }
+    this.handlers.onChange();
+  }
+
+  async play(): Promise<void> {
+    this.playing = true;
+    if (this.index >= this.textLengths.length) {
+      this.index = 0; // Replay from the start
+    }
+    await this.playCurrent();
+    this.handlers.onChange();
+  }
+
+  pause(): void {
+    this.playing = false;
+    this.clips[this.index]?.audio.pause();
+    this.handlers.onChange();
+  }
+
+  setPlaybackRate(rate: number): void {
+    this.rate = rate;
+    for (const clip of this.clips) {
+      clip.audio.playbackRate = rate;
+    }
+    this.handlers.onChange();
+  }
+
+  /**
+   * Jumps to a position in seconds, limited to the clips generated so far
+   */
+  seek(seconds: number): void {
+    if (this.clips.length === 0) {
+      return;
+    }
+
+    let target = Math.max(0, seconds);
+    let index = 0;
+    while (index < this.clips.length - 1 && target >= this.clips[index].duration) {
+      target -= this.clips[index].duration;
+      index++;
+    }
+
+    const clip = this.clips[index];
+    if (index !== this.index) {
+      this.clips[this.index]?.audio.pause();
+      this.index = index;
+    }
+    clip.audio.currentTime = Math.min(target, Math.max(0, clip.duration - 0.05));
+    if (this.playing) {
+      this.playCurrent();
+    }
+    this.handlers.onChange();
+  }
+
+  /**
+   * Ends the playlist after the clips generated so far, e.g. when generating the rest failed
+   */
+  truncate(): void {
+    const waiting = this.isWaiting;
+    this.textLengths = this.textLengths.slice(0, this.clips.length);
+    if (waiting) {
+      this.playing = false;
+      this.handlers.onEnded();
+    } else {
+      this.handlers.onChange();
+    }
+  }
+
+  /**
+   * Stops playback and releases every clip
+   */
+  destroy(): void {
+    this.destroyed = true;
+    this.playing = false;
+    for (const clip of this.clips) {
+      clip.audio.pause();
+      clip.audio.onended = null;
+      clip.audio.onerror = null;
+      URL.revokeObjectURL(clip.url);
+    }
+    this.clips = [];
+  }
+
+  /**
+   * Offset of a clip's first character; chunks are separated by a single space in the spoken text
+   */
+  private clipTextStart(index: number): number {
+    return this.textLengths.slice(0, index).reduce((total, length) => total + length + 1, 0);
+  }
+
+  private async playCurrent(): Promise<void> {
+    const clip = this.clips[this.index];
+    if (!clip) {
+      return; // Resumes from append() once the clip is generated
+    }
+    try {
+      await clip.audio.play();
+    } catch (err: any) {
+      // Autoplay can be blocked until the user interacts with the page
+      console.error('Failed to play audio:', err);
+      this.playing = false;
+      this.handlers.onChange();
+    }
+  }
+
+  private advance(clip: PlaylistClip): void {
+    if (this.clips[this.index] !== clip) {
+      return;
+    }
+
+    this.index++;
+    if (this.index >= this.textLengths.length) {
+      this.playing = false;
+      this.handlers.onEnded();
+      return;
+    }
+
+    const next = this.clips[this.index];
+    if (next) {
+      next.audio.currentTime = 0;
+      this.playCurrent();
+    }
+    this.handlers.onChange();
+  }
+
+  private loadDuration(audio: HTMLAudioElement): Promise<number> {
+    return new Promise((resolve, reject) => {
+      if (audio.readyState >= 1) {
+        // Metadata already loaded
+        resolve(audio.duration);
+        return;
+      }
+      audio.onloadedmetadata = () => resolve(audio.duration);
+      audio.onerror = () => reject(new Error('Failed to load audio metadata'));
+      // Timeout fallback
+      setTimeout(() => {
+        if (audio.duration) {
+          resolve(audio.duration);
+        } else {
+          reject(new Error('Failed to load audio metadata'));
+        }
+      }, METADATA_TIMEOUT_MS);
+    });
+  }
+}
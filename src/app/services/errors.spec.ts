@@ -0,0 +1,101 @@
+import { HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { firstValueFrom, throwError } from 'rxjs';
+import { ApiError, classifyHttpError, isAbortError, retryWithBackoff, toApiError, withApiErrors } from './errors';
+
+describe('classifyHttpError', () => {
+  it('should map statuses to error kinds', () => {
+    expect(classifyHttpError(0)).toBe('network');
+    expect(classifyHttpError(401)).toBe('invalid-key');
+    expect(classifyHttpError(403)).toBe('invalid-key');
+    expect(classifyHttpError(402)).toBe('out-of-credits');
+    expect(classifyHttpError(429)).toBe('rate-limited');
+    expect(classifyHttpError(408)).toBe('provider-outage');
+    expect(classifyHttpError(503)).toBe('provider-outage');
+    expect(classifyHttpError(404)).toBe('unknown');
+    expect(classifyHttpError(400)).toBe('unknown');
+  });
+
+  it('should read conditions providers report under generic statuses', () => {
+    expect(classifyHttpError(400, 'API key not valid. Please pass a valid API key.', 'INVALID_ARGUMENT API_KEY_INVALID')).toBe('invalid-key');
+    expect(classifyHttpError(429, 'You exceeded your current quota', 'insufficient_quota')).toBe('out-of-credits');
+    expect(classifyHttpError(404, 'No transcript found for this video')).toBe('no-captions');
+  });
+});
+
+describe('toApiError', () => {
+  it('should classify HttpClient errors from their JSON payload and keep Retry-After', () => {
+    const error = toApiError(new HttpErrorResponse({
+      status: 429,
+      error: { error: { message: 'Slow down', status: 'RESOURCE_EXHAUSTED' } },
+      headers: new HttpHeaders({ 'Retry-After': '7' })
+    }), 'Gemini');
+
+    expect(error.kind).toBe('rate-limited');
+    expect(error.service).toBe('Gemini');
+    expect(error.status).toBe(429);
+    expect(error.retryAfterMs).toBe(7000);
+    expect(error.retriable).toBeTrue();
+  });
+
+  it('should treat a fetch TypeError as a network error', () => {
+    const error = toApiError(new TypeError('Failed to fetch'), 'Together.ai');
+    expect(error.kind).toBe('network');
+    expect(error.message).toContain('Together.ai');
+  });
+
+  it('should pass ApiErrors through unchanged', () => {
+    const original = new ApiError('no-captions', 'No captions', 'Scrape Creators');
+    expect(toApiError(original, 'Gemini')).toBe(original);
+  });
+});
+
+describe('withApiErrors', () => {
+  it('should read JSON error bodies of blob requests', async () => {
+    const body = new Blob([JSON.stringify({ error: { message: 'Invalid API key provided', type: 'invalid_request_error' } })], { type: 'application/json' });
+    const request = throwError(() => new HttpErrorResponse({ status: 400, error: body }));
+
+    await expectAsync(firstValueFrom(request.pipe(withApiErrors('Together.ai', 0)))).toBeRejectedWith(jasmine.objectContaining({
+      kind: 'invalid-key',
+      status: 400
+    }));
+  });
+
+  it('should use plain text error bodies of blob requests as the message', async () => {
+    const request = throwError(() => new HttpErrorResponse({ status: 400, error: new Blob(['Voice not found']) }));
+
+    await expectAsync(firstValueFrom(request.pipe(withApiErrors('Together.ai', 0)))).toBeRejectedWith(jasmine.objectContaining({
+      kind: 'unknown',
+      message: 'Voice not found'
+    }));
+  });
+});
+
+describe('retryWithBackoff', () => {
+  it('should not retry errors that cannot succeed on retry', async () => {
+    let attempts = 0;
+    const request = () => {
+      attempts++;
+      return Promise.reject(new ApiError('invalid-key', 'Bad key', 'Gemini', 401));
+    };
+
+    await expectAsync(retryWithBackoff(request)).toBeRejectedWith(jasmine.objectContaining({ kind: 'invalid-key' }));
+    expect(attempts).toBe(1);
+  });
+
+  it('should stop waiting for the next attempt as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    let attempts = 0;
+    const request = () => {
+      attempts++;
+      return Promise.reject(new ApiError('provider-outage', 'Down', 'Gemini', 503));
+    };
+
+    const result = retryWithBackoff(request, 3, controller.signal).catch(error => error);
+    setTimeout(() => controller.abort(), 10);
+    const startedAt = Date.now();
+
+    expect(isAbortError(await result)).toBeTrue();
+    expect(Date.now() - startedAt).toBeLessThan(500);
+    expect(attempts).toBe(1);
+  });
+});
@@ -0,0 +1,289 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { MonoTypeOperatorFunction, Observable, defer, firstValueFrom, throwError, timer } from 'rxjs';
+import { catchError, retry } from 'rxjs/operators';
+
+/**
+ * What went wrong with an outbound request, independent of the service that failed
+ */
+export type ApiErrorKind =
+  | 'invalid-input'
+  | 'missing-key'
+  | 'invalid-key'
+  | 'out-of-credits'
+  | 'rate-limited'
+  | 'no-captions'
+  | 'content-blocked'
+  | 'network'
+  | 'provider-outage'
+  | 'unknown';
+
+const RETRIABLE_KINDS: ApiErrorKind[] = ['rate-limited', 'network', 'provider-outage'];
+
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+export class ApiError extends Error {
+  constructor(
+    readonly kind: ApiErrorKind,
+    message: string,
+    readonly service: string, // Display name, e.g. "Scrape Creators" or "Gemini"
+    readonly status?: number,
+    readonly retryAfterMs?: number // From a Retry-After header, when the service sent one
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  get retriable(): boolean {
+    return RETRIABLE_KINDS.includes(this.kind);
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+/**
+ * The error a cancelled request fails with, matching what fetch() throws for an aborted signal
+ */
+export function abortError(): DOMException {
+  return new DOMException('The request was cancelled.', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === 'AbortError';
+}
+
+export function missingKeyError(service: string): ApiError {
+  return new ApiError('missing-key', `${service} API key not found. Please set it in settings.`, service);
+}
+
+/**
+ * Maps an HTTP status and error payload to an error kind. Providers report some conditions
+ * under generic statuses (Gemini sends invalid keys as 400, OpenAI sends exhausted quota as 429).
+ */
+export function classifyHttpError(status: number, payloadMessage: string = '', payloadCode: string = ''): ApiErrorKind {
+  const text = `${payloadMessage} ${payloadCode}`.toLowerCase();
+
+  if (status === 0) {
+    return 'network';
+  }
+  if (status === 401 || status === 403 || /api key not valid|invalid api key|invalid_api_key|api_key_invalid|unauthori[sz]ed/.test(text)) {
+    return 'invalid-key';
+  }
+  if (status === 402 || /insufficient_quota|out of credits|no credits|not enough credits|billing/.test(text)) {
+    return 'out-of-credits';
+  }
+  if (status === 429) {
+    return 'rate-limited';
+  }
+  if (status === 404 && /transcript|caption|subtitle/.test(text)) {
+    return 'no-captions';
+  }
+  if (status === 408 || status >= 500) {
+    return 'provider-outage';
+  }
+  return 'unknown';
+}
+
+/**
+ * User-facing message for an error kind
+ */
+export function describeApiError(kind: ApiErrorKind, service: string, status?: number, detail: string = ''): string {
+  switch (kind) {
+    case 'missing-key':
+      return `${service} API key not found. Please set it in settings.`;
+    case 'invalid-key':
+      return `${service} rejected your API key. Please check it in settings.`;
+    case 'out-of-credits':
+      return `You are out of ${service} credits or quota.`;
+    case 'rate-limited':
+      return `${service} is rate limiting requests. Please wait a moment and try again.`;
+    case 'no-captions':
+      return 'No captions are available for this video. You can upload a transcript file instead.';
+    case 'content-blocked':
+      return `${service} declined to respond to this content${detail ? ` (${detail})` : ''}.`;
+    case 'network':
+      return `Could not reach ${service}. Please check your internet connection.`;
+    case 'provider-outage':
+      return `${service} is having problems right now${status ? ` (HTTP ${status})` : ''}. Please try again later.`;
+    default:
+      return detail || `${service} request failed${status ? ` (HTTP ${status})` : ''}.`;
+  }
+}
+
+/**
+ * Converts an HttpClient error, fetch failure or thrown Error into an ApiError
+ */
+export function toApiError(error: unknown, service: string): ApiError {
+  if (isApiError(error)) {
+    return error;
+  }
+
+  if (error instanceof HttpErrorResponse) {
+    const { message, code } = readErrorPayload(error.error);
+    const kind = classifyHttpError(error.status, message, code);
+    return new ApiError(kind, describeApiError(kind, service, error.status, message), service, error.status, parseRetryAfter(error.headers?.get('Retry-After')));
+  }
+
+  // fetch() rejects with a TypeError when the request never reaches the server
+  if (error instanceof TypeError) {
+    return new ApiError('network', describeApiError('network', service), service);
+  }
+
+  const message = error instanceof Error ? error.message : '';
+  return new ApiError('unknown', describeApiError('unknown', service, undefined, message), service);
+}
+
+/**
+ * Builds an ApiError from a failed fetch() response
+ */
+export async function apiErrorFromResponse(response: Response, service: string): Promise<ApiError> {
+  const body = await response.json().catch(() => null);
+  const { message, code } = readErrorPayload(body);
+  const kind = classifyHttpError(response.status, message, code);
+  return new ApiError(kind, describeApiError(kind, service, response.status, message), service, response.status, parseRetryAfter(response.headers.get('Retry-After')));
+}
+
+/**
+ * fetch() that maps failures to ApiErrors and retries retriable ones with backoff.
+ * Resolves with the successful response, so streaming bodies are only read once.
+ */
+export async function fetchWithRetry(url: string, init: RequestInit, service: string): Promise<Response> {
+  return retryWithBackoff(async () => {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      throw isAbortError(error) ? error : toApiError(error, service);
+    }
+    if (!response.ok) {
+      throw await apiErrorFromResponse(response, service);
+    }
+    return response;
+  }, MAX_RETRIES, init.signal || undefined);
+}
+
+/**
+ * Runs an async request, retrying retriable ApiErrors with exponential backoff until the signal aborts
+ */
+export async function retryWithBackoff<T>(request: () => Promise<T>, maxRetries: number = MAX_RETRIES, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (!isApiError(error) || !error.retriable || attempt >= maxRetries || signal?.aborted) {
+        throw error;
+      }
+      const delayMs = getRetryDelay(error, attempt);
+      console.warn(`${error.service} request failed (${error.kind}), retrying in ${delayMs}ms`);
+      // Rejects as soon as the signal aborts; unsubscribing clears the timer
+      await firstValueFrom(timer(delayMs).pipe(abortWith(signal)));
+    }
+  }
+}
+
+/**
+ * RxJS operator: maps errors to ApiErrors for the service and retries retriable ones with exponential backoff
+ */
+export function withApiErrors<T>(service: string, maxRetries: number = MAX_RETRIES): MonoTypeOperatorFunction<T> {
+  return source => source.pipe(
+    catchError(error => defer(async () => {
+      throw toApiError(await readBlobErrorBody(error), service);
+    })),
+    retry({
+      count: maxRetries,
+      delay: (error: ApiError, retryCount: number) => {
+        if (!error.retriable) {
+          return throwError(() => error);
+        }
+        const delayMs = getRetryDelay(error, retryCount - 1);
+        console.warn(`${error.service} request failed (${error.kind}), retrying in ${delayMs}ms`);
+        return timer(delayMs);
+      }
+    })
+  );
+}
+
+/**
+ * RxJS operator: fails with an AbortError as soon as the signal aborts. Unsubscribing from the
+ * source cancels HttpClient requests and pending retries.
+ */
+export function abortWith<T>(signal?: AbortSignal): MonoTypeOperatorFunction<T> {
+  return source => !signal ? source : new Observable<T>(subscriber => {
+    if (signal.aborted) {
+      subscriber.error(abortError());
+      return;
+    }
+    const onAbort = () => subscriber.error(abortError());
+    signal.addEventListener('abort', onAbort);
+    const subscription = source.subscribe(subscriber);
+    return () => {
+      signal.removeEventListener('abort', onAbort);
+      subscription.unsubscribe();
+    };
+  });
+}
+
+/**
+ * 1s, 2s, 4s... with jitter, or the server's Retry-After when it is longer
+ */
+function getRetryDelay(error: ApiError, attempt: number): number {
+  const backoff = BASE_RETRY_DELAY_MS * 2 ** attempt + Math.random() * 250;
+  return Math.min(MAX_RETRY_DELAY_MS, Math.max(backoff, error.retryAfterMs || 0));
+}
+
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Requests made with responseType 'blob' (text-to-speech audio) get their error body as a Blob too;
+ * reads it as text and parses it as JSON when it is, so readErrorPayload sees the usual shapes
+ */
+async function readBlobErrorBody(error: unknown): Promise<unknown> {
+  if (!(error instanceof HttpErrorResponse) || !(error.error instanceof Blob)) {
+    return error;
+  }
+
+  const text = await error.error.text().catch(() => '');
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Plain text, e.g. a proxy's error page
+  }
+  return new HttpErrorResponse({
+    error: body,
+    headers: error.headers,
+    status: error.status,
+    statusText: error.statusText,
+    url: error.url ?? undefined
+  });
+}
+
+/**
+ * Pulls a message and code out of the error shapes used by Gemini, OpenAI-compatible APIs,
+ * Together.ai and Scrape Creators
+ */
+function readErrorPayload(body: any): { message: string; code: string } {
+  if (!body) {
+    return { message: '', code: '' };
+  }
+  if (typeof body === 'string') {
+    return { message: body, code: '' };
+  }
+  const error = typeof body.error === 'object' && body.error ? body.error : body;
+  const message = error.message || (typeof body.error === 'string' ? body.error : '') || body.message || '';
+  const code = [error.code, error.status, error.type, error.reason].filter(value => typeof value === 'string').join(' ');
+  return { message: String(message), code };
+}
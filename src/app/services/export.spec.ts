@@ -0,0 +1,74 @@
+import { TranscriptItem } from './api';
+import { Export } from './export';
+import { TranscriptChapter } from './summary';
+import { createTranscriptItem, parseTranscriptFile } from './transcript-file';
+
+const transcript: TranscriptItem[] = [
+  createTranscriptItem('Hello and welcome', 0, 2500),
+  createTranscriptItem('Today we talk about caching', 2500, 6250),
+  createTranscriptItem('That is all', 3723004, 3725000)
+];
+
+function chapter(title: string, startMs: number, endMs: number, startTimeText: string): TranscriptChapter {
+  return { title, startMs, endMs, startTimeText, index: 0 };
+}
+
+describe('Export', () => {
+  const exporter = new Export();
+
+  it('should write numbered SRT cues with comma millisecond separators', () => {
+    expect(exporter.toSrt(transcript.slice(0, 2))).toBe(
+      '1\n00:00:00,000 --> 00:00:02,500\nHello and welcome\n\n' +
+      '2\n00:00:02,500 --> 00:00:06,250\nToday we talk about caching\n'
+    );
+  });
+
+  it('should write a WebVTT header and hour-long timings', () => {
+    const vtt = exporter.toVtt(transcript);
+    expect(vtt.startsWith('WEBVTT\n\n00:00:00.000 --> 00:00:02.500\nHello and welcome\n')).toBeTrue();
+    expect(vtt).toContain('01:02:03.004 --> 01:02:05.000\nThat is all\n');
+  });
+
+  it('should run a cue without a valid end to the next line', () => {
+    const srt = exporter.toSrt([
+      { ...createTranscriptItem('first', 1000, 0), endMs: '' },
+      createTranscriptItem('second', 4000, 5000)
+    ]);
+    expect(srt).toContain('00:00:01,000 --> 00:00:04,000\nfirst');
+  });
+
+  it('should round-trip SRT and WebVTT through the transcript file parser', () => {
+    expect(parseTranscriptFile(exporter.toSrt(transcript), 'video.srt')).toEqual(transcript);
+    expect(parseTranscriptFile(exporter.toVtt(transcript), 'video.vtt')).toEqual(transcript);
+  });
+
+  describe('YouTube chapters', () => {
+    const valid = [
+      chapter('Intro', 0, 30000, '0:00'),
+      chapter('Setup', 30000, 95000, '0:30'),
+      chapter('Wrap-up', 95000, 120000, '1:35')
+    ];
+
+    it('should write one "M:SS Title" line per chapter', () => {
+      expect(exporter.toYouTubeChapters(valid)).toBe('0:00 Intro\n0:30 Setup\n1:35 Wrap-up\n');
+      expect(exporter.checkYouTubeChapters(valid)).toEqual([]);
+    });
+
+    it('should require at least three chapters', () => {
+      const problems = exporter.checkYouTubeChapters(valid.slice(0, 2));
+      expect(problems).toEqual(['YouTube needs at least 3 chapters; this summary has 2.']);
+      expect(() => exporter.toYouTubeChapters(valid.slice(0, 2))).toThrowError(/at least 3 chapters/);
+    });
+
+    it('should require the first chapter to start at 0:00', () => {
+      const late = [chapter('Intro', 5000, 30000, '0:05'), ...valid.slice(1)];
+      expect(exporter.checkYouTubeChapters(late)).toEqual(['The first chapter must start at 0:00.']);
+    });
+
+    it('should report chapters shorter than 10 seconds', () => {
+      const short = [...valid.slice(0, 2), chapter('Outro', 95000, 99000, '1:35')];
+      expect(exporter.checkYouTubeChapters(short)).toEqual(['"Outro" (1:35) is shorter than 10 seconds.']);
+      expect(() => exporter.toYouTubeChapters(short)).toThrowError(/Outro/);
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { Injectable } from '@angular/core';
+import { TranscriptItem, TranscriptResponse } from './api';
+import { TranscriptChapter } from './summary';
+
+export type ExportFormat = 'srt' | 'vtt' | 'md' | 'json' | 'chapters';
+
+export interface ExportContent {
+  transcriptData: TranscriptResponse;
+  headline: string;
+  summary: string;
+  chapters: TranscriptChapter[];
+}
+
+export const EXPORT_FORMATS: Array<{ value: ExportFormat; label: string; mimeType: string; extension: string }> = [
+  { value: 'srt', label: 'SRT subtitles', mimeType: 'application/x-subrip', extension: 'srt' },
+  { value: 'vtt', label: 'WebVTT subtitles', mimeType: 'text/vtt', extension: 'vtt' },
+  { value: 'md', label: 'Markdown', mimeType: 'text/markdown', extension: 'md' },
+  { value: 'json', label: 'JSON', mimeType: 'application/json', extension: 'json' },
+  { value: 'chapters', label: 'YouTube chapters', mimeType: 'text/plain', extension: 'txt' }
+];
+
+@Injectable({
+  providedIn: 'root',
+})
+export class Export {
+  // YouTube ignores a description's chapter list unless every rule is met
+  private readonly YOUTUBE_MIN_CHAPTERS = 3;
+  private readonly YOUTUBE_MIN_CHAPTER_MS = 10000;
+
+  /**
+   * SubRip: numbered cues with HH:MM:SS,mmm timings
+   */
+  toSrt(transcript: TranscriptItem[]): string {
+    return this.getCues(transcript)
+      .map((cue, i) => `${i + 1}\n${this.formatCueTime(cue.startMs, ',')} --> ${this.formatCueTime(cue.endMs, ',')}\n${cue.text}\n`)
+      .join('\n');
+  }
+
+  /**
+   * WebVTT: header followed by cues with HH:MM:SS.mmm timings
+   */
+  toVtt(transcript: TranscriptItem[]): string {
+    const cues = this.getCues(transcript)
+      .map(cue => `${this.formatCueTime(cue.startMs, '.')} --> ${this.formatCueTime(cue.endMs, '.')}\n${cue.text}\n`)
+      .join('\n');
+    return `WEBVTT\n\n${cues}`;
+  }
+
+  /**
+   * Chapter list for a YouTube description: one "M:SS Title" line per chapter, starting at 0:00.
+   * Throws with the reasons when YouTube would not accept the list.
+   */
+  toYouTubeChapters(chapters: TranscriptChapter[]): string {
+    const problems = this.checkYouTubeChapters(chapters);
+    if (problems.length > 0) {
+      throw new Error(`These chapters would not work on YouTube. ${problems.join(' ')}`);
+    }
+    return chapters.map(chapter => `${chapter.startTimeText} ${chapter.title}`).join('\n') + '\n';
+  }
+
+  /**
+   * YouTube needs at least three chapters, the first at 0:00 and each at least 10 seconds long
+   */
+  checkYouTubeChapters(chapters: TranscriptChapter[]): string[] {
+    const problems: string[] = [];
+    if (chapters.length < this.YOUTUBE_MIN_CHAPTERS) {
+      problems.push(`YouTube needs at least ${this.YOUTUBE_MIN_CHAPTERS} chapters; this summary has ${chapters.length}.`);
+    }
+    if (chapters.length > 0 && chapters[0].startMs !== 0) {
+      problems.push('The first chapter must start at 0:00.');
+    }
+    for (const chapter of chapters) {
+      if (chapter.endMs - chapter.startMs < this.YOUTUBE_MIN_CHAPTER_MS) {
+        problems.push(`"${chapter.title}" (${chapter.startTimeText}) is shorter than 10 seconds.`);
+      }
+    }
+    return problems;
+  }
+
+  /**
+   * Markdown document with headline, summary, chapters and timestamped transcript
+   */
+  toMarkdown(content: ExportContent): string {
+    const { transcriptData, headline, summary, chapters } = content;
+    const lines = [
+      `# ${headline || transcriptData.videoId}`,
+      '',
+      `Source: ${transcriptData.url || `https://www.youtube.com/watch?v=${transcriptData.videoId}`}`,
+      ''
+    ];
+
+    if (summary) {
+      lines.push('## Summary', '', summary.trim(), '');
+    }
+
+    if (chapters.length > 0) {
+      lines.push('## Chapters', '');
+      for (const chapter of chapters) {
+        lines.push(`- **[${chapter.startTimeText}]** ${chapter.title}`);
+      }
+      lines.push('');
+    }
+
+    lines.push('## Transcript', '');
+    for (const item of transcriptData.transcript) {
+      lines.push(`- **[${item.startTimeText}]** ${item.text}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Raw transcript response, plus the headline and summary when present
+   */
+  toJson(content: ExportContent): string {
+    const { transcriptData, headline, summary } = content;
+    return JSON.stringify({ ...transcriptData, headline, summary }, null, 2);
+  }
+
+  /**
+   * Builds the file for a format and triggers a browser download
+   */
+  download(format: ExportFormat, content: ExportContent): void {
+    const transcript = content.transcriptData.transcript;
+    let text = '';
+    if (format === 'srt') {
+      text = this.toSrt(transcript);
+    } else if (format === 'vtt') {
+      text = this.toVtt(transcript);
+    } else if (format === 'md') {
+      text = this.toMarkdown(content);
+    } else if (format === 'chapters') {
+      if (content.chapters.length === 0) {
+        throw new Error('This summary has no chapters to export.');
+      }
+      text = this.toYouTubeChapters(content.chapters);
+    } else {
+      text = this.toJson(content);
+    }
+
+    const exportFormat = EXPORT_FORMATS.find(f => f.value === format);
+    const mimeType = exportFormat?.mimeType || 'text/plain';
+    const blob = new Blob([text], { type: `${mimeType};charset=utf-8` });
+    this.saveFile(blob, `${this.getFileName(content)}${format === 'chapters' ? ' chapters' : ''}.${exportFormat?.extension || format}`);
+  }
+
+  /**
+   * Joins the summary's MP3 clips into one file named after the headline
+   */
+  downloadAudio(clips: Blob[], headline: string): void {
+    if (clips.length === 0) {
+      throw new Error('There is no audio to download yet.');
+    }
+    this.saveFile(new Blob(clips, { type: 'audio/mpeg' }), `${this.toFileName(headline, 'summary')}.mp3`);
+  }
+
+  /**
+   * File-system safe name from the headline, falling back to the video ID
+   */
+  getFileName(content: ExportContent): string {
+    return this.toFileName(content.headline || content.transcriptData.videoId, 'transcript');
+  }
+
+  private toFileName(name: string, fallback: string): string {
+    const base = (name || '')
+      .replace(/[\\/:*?"<>|]+/g, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .substring(0, 80);
+    return base || fallback;
+  }
+
+  private saveFile(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Cue timings from startMs/endMs; a missing or invalid end runs to the next line's start
+   */
+  private getCues(transcript: TranscriptItem[]): Array<{ startMs: number; endMs: number; text: string }> {
+    return transcript.map((item, i) => {
+      const startMs = parseInt(item.startMs, 10) || 0;
+      let endMs = parseInt(item.endMs, 10);
+      if (!endMs || endMs <= startMs) {
+        const nextStart = parseInt(transcript[i + 1]?.startMs, 10);
+        endMs = nextStart > startMs ? nextStart : startMs + 2000;
+      }
+      return { startMs, endMs, text: item.text.trim() };
+    });
+  }
+
+  private formatCueTime(ms: number, separator: ',' | '.'): string {
+    const hours = Math.floor(ms / 3600000);
+    const mins = Math.floor((ms % 3600000) / 60000);
+    const secs = Math.floor((ms % 60000) / 1000);
+    const millis = Math.floor(ms % 1000);
+    return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}${separator}${millis.toString().padStart(3, '0')}`;
+  }
+}
@@ -0,0 +1,329 @@
+import { Injectable } from '@angular/core';
+import { TranscriptResponse } from './api';
+import { SummaryResult } from './summary';
+import { QueueItem } from './queue';
+
+export interface SavedSummary extends SummaryResult {
+  style: string;
+  lengthPercentage: number;
+  createdAt: number;
+}
+
+export interface CachedTranscript {
+  videoId: string;
+  transcriptData: TranscriptResponse;
+  cachedAt: number;
+  language?: string; // Caption language requested when fetching; empty or missing for the default
+}
+
+/**
+ * Generated summary audio, reused so replaying a summary is not billed again
+ */
+export interface SavedAudio {
+  key: string; // See getAudioKey()
+  videoId?: string; // Video the summary belongs to, so its audio is deleted with it
+  voice: string;
+  clips: Blob[]; // MP3 chunks in playback order
+  createdAt: number;
+  lastUsedAt?: number; // Last replay; audio used least recently is pruned first
+}
+
+export interface LibraryEntry {
+  videoId: string;
+  transcriptData: TranscriptResponse;
+  summaries: SavedSummary[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class Library {
+  private readonly DB_NAME = 'youtube_magic_library';
+  private readonly DB_VERSION = 4;
+  private readonly VIDEOS_STORE = 'videos';
+  private readonly TRANSCRIPTS_STORE = 'transcripts';
+  private readonly AUDIO_STORE = 'audio';
+  private readonly AUDIO_VIDEO_INDEX = 'videoId';
+  private readonly QUEUE_STORE = 'queue';
+  private readonly MAX_AUDIO_BYTES = 100 * 1024 * 1024;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Returns every saved video, most recently updated first
+   */
+  async getAll(): Promise<LibraryEntry[]> {
+    const entries = await this.request<LibraryEntry[]>(this.VIDEOS_STORE, 'readonly', store => store.getAll());
+    return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async get(videoId: string): Promise<LibraryEntry | null> {
+    const entry = await this.request<LibraryEntry | undefined>(this.VIDEOS_STORE, 'readonly', store => store.get(videoId));
+    return entry || null;
+  }
+
+  /**
+   * Saves a fetched transcript, keeping any summaries already stored for the video
+   */
+  async saveTranscript(response: TranscriptResponse): Promise<LibraryEntry> {
+    const { cachedAt, ...transcriptData } = response;
+    const now = Date.now();
+    let entry: LibraryEntry | null = null;
+    // Read and write in one transaction so a summary saved meanwhile is not dropped
+    await this.transaction([this.VIDEOS_STORE], transaction => {
+      const store = transaction.objectStore(this.VIDEOS_STORE);
+      const getRequest = store.get(transcriptData.videoId);
+      getRequest.onsuccess = () => {
+        const existing: LibraryEntry | undefined = getRequest.result;
+        entry = {
+          videoId: transcriptData.videoId,
+          transcriptData,
+          summaries: existing?.summaries || [],
+          createdAt: existing?.createdAt || now,
+          updatedAt: now
+        };
+        store.put(entry);
+      };
+    });
+    return entry!;
+  }
+
+  /**
+   * Appends a generated summary to a saved video. Reads and writes in one transaction, so summaries
+   * saved at the same time (e.g. from two open tabs) are all kept.
+   */
+  async addSummary(videoId: string, summary: Omit<SavedSummary, 'createdAt'>): Promise<void> {
+    await this.transaction([this.VIDEOS_STORE], transaction => {
+      const store = transaction.objectStore(this.VIDEOS_STORE);
+      const getRequest = store.get(videoId);
+      getRequest.onsuccess = () => {
+        const entry: LibraryEntry | undefined = getRequest.result;
+        if (!entry) {
+          return;
+        }
+
+        const now = Date.now();
+        entry.summaries.push({ ...summary, createdAt: now });
+        entry.updatedAt = now;
+        store.put(entry);
+      };
+    });
+  }
+
+  /**
+   * Deletes a saved video together with its cached transcript and summary audio
+   */
+  async delete(videoId: string): Promise<void> {
+    await this.transaction([this.VIDEOS_STORE, this.TRANSCRIPTS_STORE, this.AUDIO_STORE], transaction => {
+      transaction.objectStore(this.VIDEOS_STORE).delete(videoId);
+      transaction.objectStore(this.TRANSCRIPTS_STORE).delete(videoId);
+
+      const audioStore = transaction.objectStore(this.AUDIO_STORE);
+      const cursorRequest = audioStore.index(this.AUDIO_VIDEO_INDEX).openKeyCursor(IDBKeyRange.only(videoId));
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          audioStore.delete(cursor.primaryKey);
+          cursor.continue();
+        }
+      };
+    });
+  }
+
+  /**
+   * Returns a cached transcript response if it is younger than maxAgeMs and in the requested language
+   */
+  async getCachedTranscript(videoId: string, maxAgeMs: number, language: string = ''): Promise<CachedTranscript | null> {
+    const cached = await this.request<CachedTranscript | undefined>(this.TRANSCRIPTS_STORE, 'readonly', store => store.get(videoId));
+    if (!cached || Date.now() - cached.cachedAt > maxAgeMs || (cached.language || '') !== language) {
+      return null;
+    }
+    return cached;
+  }
+
+  async cacheTranscript(response: TranscriptResponse, language: string = ''): Promise<void> {
+    const { cachedAt, ...transcriptData } = response;
+    const entry: CachedTranscript = {
+      videoId: transcriptData.videoId,
+      transcriptData,
+      cachedAt: Date.now(),
+      language
+    };
+    await this.request(this.TRANSCRIPTS_STORE, 'readwrite', store => store.put(entry));
+  }
+
+  async clearTranscriptCache(): Promise<void> {
+    await this.request(this.TRANSCRIPTS_STORE, 'readwrite', store => store.clear());
+  }
+
+  /**
+   * Identifies the audio for a summary text and voice
+   */
+  getAudioKey(text: string, voice: string): string {
+    // FNV-1a, enough to tell summaries apart without storing their text twice
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return `${voice}:${text.length}:${(hash >>> 0).toString(36)}`;
+  }
+
+  async getAudio(key: string): Promise<SavedAudio | null> {
+    const audio = await this.request<SavedAudio | undefined>(this.AUDIO_STORE, 'readonly', store => store.get(key));
+    if (!audio) {
+      return null;
+    }
+
+    audio.lastUsedAt = Date.now();
+    this.request(this.AUDIO_STORE, 'readwrite', store => store.put(audio))
+      .catch(err => console.error('Failed to update audio usage:', err));
+    return audio;
+  }
+
+  /**
+   * Saves generated audio, then prunes the least recently used audio until the store fits MAX_AUDIO_BYTES
+   */
+  async saveAudio(audio: SavedAudio): Promise<void> {
+    await this.request(this.AUDIO_STORE, 'readwrite', store => store.put({ ...audio, lastUsedAt: audio.lastUsedAt ?? audio.createdAt }));
+    await this.pruneAudio(audio.key);
+  }
+
+  async clearAudio(): Promise<void> {
+    await this.request(this.AUDIO_STORE, 'readwrite', store => store.clear());
+  }
+
+  private async pruneAudio(keepKey: string): Promise<void> {
+    const saved = await this.request<SavedAudio[]>(this.AUDIO_STORE, 'readonly', store => store.getAll());
+    const sizeOf = (audio: SavedAudio) => audio.clips.reduce((total, clip) => total + clip.size, 0);
+    let totalBytes = saved.reduce((total, audio) => total + sizeOf(audio), 0);
+    if (totalBytes <= this.MAX_AUDIO_BYTES) {
+      return;
+    }
+
+    const oldestFirst = saved
+      .filter(audio => audio.key !== keepKey)
+      .sort((a, b) => (a.lastUsedAt ?? a.createdAt) - (b.lastUsedAt ?? b.createdAt));
+    const evicted: string[] = [];
+    for (const audio of oldestFirst) {
+      if (totalBytes <= this.MAX_AUDIO_BYTES) {
+        break;
+      }
+      evicted.push(audio.key);
+      totalBytes -= sizeOf(audio);
+    }
+
+    await this.transaction([this.AUDIO_STORE], transaction => {
+      const store = transaction.objectStore(this.AUDIO_STORE);
+      evicted.forEach(key => store.delete(key));
+    });
+  }
+
+  /**
+   * Returns the saved batch queue in the order it was added
+   */
+  async getQueue(): Promise<QueueItem[]> {
+    const items = await this.request<QueueItem[]>(this.QUEUE_STORE, 'readonly', store => store.getAll());
+    return items.sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Replaces the saved batch queue, so it survives a reload or a closed tab
+   */
+  async saveQueue(items: QueueItem[]): Promise<void> {
+    await this.transaction([this.QUEUE_STORE], transaction => {
+      const store = transaction.objectStore(this.QUEUE_STORE);
+      store.clear();
+      items.forEach(item => store.put(item));
+    });
+  }
+
+  /**
+   * Opens the database, creating the object stores on first use
+   */
+  private openDb(): Promise<IDBDatabase> {
+    if (this.dbPromise) {
+      return this.dbPromise;
+    }
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+
+      let blocked = false;
+      const openRequest = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+      openRequest.onupgradeneeded = () => {
+        const db = openRequest.result;
+        if (!db.objectStoreNames.contains(this.VIDEOS_STORE)) {
+          db.createObjectStore(this.VIDEOS_STORE, { keyPath: 'videoId' });
+        }
+        if (!db.objectStoreNames.contains(this.TRANSCRIPTS_STORE)) {
+          db.createObjectStore(this.TRANSCRIPTS_STORE, { keyPath: 'videoId' });
+        }
+        if (!db.objectStoreNames.contains(this.AUDIO_STORE)) {
+          db.createObjectStore(this.AUDIO_STORE, { keyPath: 'key' }).createIndex(this.AUDIO_VIDEO_INDEX, 'videoId');
+        }
+        if (!db.objectStoreNames.contains(this.QUEUE_STORE)) {
+          db.createObjectStore(this.QUEUE_STORE, { keyPath: 'id' });
+        }
+      };
+      // Another tab still has the older version open and did not close it
+      openRequest.onblocked = () => {
+        blocked = true;
+        this.dbPromise = null;
+        reject(new Error('Your saved library is being upgraded. Close other YoutubeMagic tabs and try again.'));
+      };
+      openRequest.onsuccess = () => {
+        const db = openRequest.result;
+        if (blocked) {
+          // The upgrade finished after the request was given up on; the next call opens it again
+          db.close();
+          return;
+        }
+        // Let a newer version open in another tab upgrade the database
+        db.onversionchange = () => {
+          db.close();
+          this.dbPromise = null;
+        };
+        resolve(db);
+      };
+      openRequest.onerror = () => {
+        this.dbPromise = null;
+        reject(openRequest.error);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  /**
+   * Runs several requests in one readwrite transaction across stores; all of them apply or none does
+   */
+  private async transaction(storeNames: string[], action: (transaction: IDBTransaction) => void): Promise<void> {
+    const db = await this.openDb();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(storeNames, 'readwrite');
+      action(transaction);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Runs a single request against a store and resolves with its result
+   */
+  private async request<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.openDb();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = action(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
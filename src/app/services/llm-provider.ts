@@ -0,0 +1,437 @@
+import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { Observable, firstValueFrom } from 'rxjs';
+import { abortError, abortWith, fetchWithRetry, missingKeyError, withApiErrors } from './errors';
+import { SseEvent, SseParser, geminiFinishError, parseChatCompletionEvent, parseGeminiEvent, truncatedStreamError } from './sse-parser';
+
+export type LlmProviderType = 'gemini' | 'openai' | 'ollama';
+
+export interface LlmProviderConfig {
+  type: LlmProviderType;
+  apiKey: string | null;
+  baseUrl: string;
+  model: string;
+}
+
+/**
+ * The JSON Schema subset understood by both Gemini and OpenAI structured output
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface GenerateOptions {
+  /** Asks the model for JSON matching this schema instead of free text */
+  responseSchema?: JsonSchema;
+  /** Cancels the request; generate() then rejects with an AbortError */
+  signal?: AbortSignal;
+}
+
+/**
+ * A text generation backend used by the Summary service
+ */
+export interface LlmProvider {
+  readonly label: string;
+  /** Returns the full completion for a prompt */
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+  /** Emits text deltas as they arrive, completing when the response ends. Unsubscribing cancels the request. */
+  stream(prompt: string, options?: GenerateOptions): Observable<string>;
+}
+
+export interface GeminiResponse {
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{
+        text?: string;
+        thought?: boolean; // Reasoning summaries from thinking models, not part of the answer
+      }>;
+    };
+    finishReason?: string;
+  }>;
+}
+
+export interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string;
+    };
+    delta?: {
+      content?: string;
+    };
+    finish_reason?: string | null;
+  }>;
+}
+
+export const LLM_PROVIDER_DEFAULTS: Record<LlmProviderType, { label: string; baseUrl: string; model: string; requiresApiKey: boolean }> = {
+  gemini: {
+    label: 'Gemini AI',
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    model: 'gemini-2.0-flash-lite',
+    requiresApiKey: true
+  },
+  openai: {
+    label: 'OpenAI-compatible',
+    baseUrl: 'https://api.openai.com/v1',
+    model: 'gpt-4o-mini',
+    requiresApiKey: true
+  },
+  ollama: {
+    label: 'Ollama',
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'llama3.1',
+    requiresApiKey: false
+  }
+};
+
+/**
+ * Google Gemini generateContent / streamGenerateContent
+ */
+export class GeminiProvider implements LlmProvider {
+  readonly label = LLM_PROVIDER_DEFAULTS.gemini.label;
+
+  constructor(
+    private http: HttpClient,
+    private config: LlmProviderConfig
+  ) {}
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    if (!this.config.apiKey) {
+      throw missingKeyError(this.label);
+    }
+
+    const headers = new HttpHeaders({
+      'Content-Type': 'application/json',
+      'X-goog-api-key': this.config.apiKey
+    });
+
+    try {
+      const response = await firstValueFrom(
+        this.http.post<GeminiResponse>(this.modelUrl('generateContent'), this.buildBody(prompt, options), { headers })
+          .pipe(withApiErrors(this.label), abortWith(options.signal))
+      );
+
+      // Thinking models return their reasoning as separate thought parts
+      const text = (response?.candidates?.[0]?.content?.parts || [])
+        .filter(part => !part.thought && typeof part.text === 'string')
+        .map(part => part.text)
+        .join('');
+      if (text) {
+        return text;
+      }
+    } catch (error) {
+      console.error('Error generating summary with Gemini:', error);
+      throw error;
+    }
+
+    throw new Error('Invalid response from Gemini API');
+  }
+
+  stream(prompt: string, options: GenerateOptions = {}): Observable<string> {
+    return new Observable<string>(subscriber => {
+      if (!this.config.apiKey) {
+        subscriber.error(missingKeyError(this.label));
+        return;
+      }
+
+      // alt=sse streams server-sent events, one complete GenerateContentResponse per event
+      const streamUrl = `${this.modelUrl('streamGenerateContent')}?alt=sse`;
+      const controller = linkAbortController(options.signal);
+
+      // Retries happen before any text is emitted; a stream that breaks midway is not restarted
+      fetchWithRetry(streamUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-goog-api-key': this.config.apiKey
+        },
+        body: JSON.stringify(this.buildBody(prompt, options)),
+        signal: controller.signal
+      }, this.label).then(async (response) => {
+        const parser = new SseParser();
+        // Emits the text of each event; returns true once the response has finished
+        const handleEvents = (events: SseEvent[]): boolean => {
+          for (const event of events) {
+            const chunk = parseGeminiEvent(event, this.label);
+            if (chunk.text) {
+              subscriber.next(chunk.text);
+            }
+            if (chunk.finishReason) {
+              const error = geminiFinishError(chunk.finishReason, this.label);
+              if (error) {
+                throw error;
+              }
+              if (chunk.finishReason === 'MAX_TOKENS') {
+                console.warn('Gemini response was cut off at the output token limit');
+              }
+              subscriber.complete();
+              return true;
+            }
+          }
+          return false;
+        };
+
+        // Every response ends with a finishReason; without one the connection dropped midway
+        const reader = response.body?.getReader();
+        if (!reader) {
+          // No streaming body, parse the whole response at once
+          if (!handleEvents(parser.push(await response.text()))) {
+            throw truncatedStreamError(this.label);
+          }
+          return;
+        }
+
+        const decoder = new TextDecoder();
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) {
+            break;
+          }
+          if (handleEvents(parser.push(decoder.decode(value, { stream: true })))) {
+            return;
+          }
+        }
+
+        if (!handleEvents(parser.push(decoder.decode()))) {
+          throw truncatedStreamError(this.label);
+        }
+      }).catch((error) => {
+        if (controller.signal.aborted) {
+          // A no-op after unsubscribing; cancelling through options.signal still has to end the stream
+          subscriber.error(abortError());
+          return;
+        }
+        console.error('Streaming error:', error);
+        subscriber.error(error);
+      });
+
+      return () => controller.abort();
+    });
+  }
+
+  private modelUrl(method: string): string {
+    return `${this.config.baseUrl.replace(/\/+$/, '')}/models/${this.config.model}:${method}`;
+  }
+
+  private buildBody(prompt: string, options: GenerateOptions): object {
+    const body: Record<string, unknown> = {
+      contents: [
+        {
+          parts: [
+            {
+              text: prompt
+            }
+          ]
+        }
+      ]
+    };
+    if (options.responseSchema) {
+      body['generationConfig'] = {
+        responseMimeType: 'application/json',
+        responseSchema: this.toGeminiSchema(options.responseSchema)
+      };
+    }
+    return body;
+  }
+
+  /**
+   * Gemini expects upper-case type names and streams properties in propertyOrdering
+   */
+  private toGeminiSchema(schema: JsonSchema): object {
+    const converted: Record<string, unknown> = { ...schema, type: schema.type.toUpperCase() };
+    if (schema.properties) {
+      converted['properties'] = Object.fromEntries(
+        Object.entries(schema.properties).map(([name, property]) => [name, this.toGeminiSchema(property)])
+      );
+      converted['propertyOrdering'] = Object.keys(schema.properties);
+    }
+    if (schema.items) {
+      converted['items'] = this.toGeminiSchema(schema.items);
+    }
+    return converted;
+  }
+}
+
+/**
+ * Any server exposing an OpenAI-style /chat/completions endpoint (OpenAI, Ollama, vLLM, LM Studio...)
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly label: string;
+
+  constructor(
+    private http: HttpClient,
+    private config: LlmProviderConfig
+  ) {
+    this.label = LLM_PROVIDER_DEFAULTS[config.type].label;
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    this.assertApiKey();
+
+    try {
+      const response = await firstValueFrom(
+        this.http.post<ChatCompletionResponse>(this.completionsUrl(), this.buildBody(prompt, false, options), {
+          headers: new HttpHeaders(this.buildHeaders())
+        }).pipe(withApiErrors(this.label), abortWith(options.signal))
+      );
+
+      const text = response?.choices?.[0]?.message?.content;
+      if (text) {
+        return text;
+      }
+    } catch (error) {
+      console.error(`Error generating summary with ${this.label}:`, error);
+      throw error;
+    }
+
+    throw new Error(`Invalid response from ${this.label}`);
+  }
+
+  stream(prompt: string, options: GenerateOptions = {}): Observable<string> {
+    return new Observable<string>(subscriber => {
+      try {
+        this.assertApiKey();
+      } catch (error) {
+        subscriber.error(error);
+        return;
+      }
+
+      const controller = linkAbortController(options.signal);
+
+      fetchWithRetry(this.completionsUrl(), {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify(this.buildBody(prompt, true, options)),
+        signal: controller.signal
+      }, this.label).then(async (response) => {
+        const parser = new SseParser();
+        let finished = false; // A chunk carried a finish_reason
+        // Emits the text of each event; returns true once the [DONE] sentinel arrives
+        const handleEvents = (events: SseEvent[]): boolean => {
+          for (const event of events) {
+            const chunk = parseChatCompletionEvent(event, this.label);
+            if (chunk.done) {
+              subscriber.complete();
+              return true;
+            }
+            if (chunk.text) {
+              subscriber.next(chunk.text);
+            }
+            finished = finished || !!chunk.finishReason;
+          }
+          return false;
+        };
+        // Some servers close after the finish_reason without sending [DONE]; without either the connection dropped midway
+        const endOfStream = () => {
+          if (!finished) {
+            throw truncatedStreamError(this.label);
+          }
+          subscriber.complete();
+        };
+
+        const reader = response.body?.getReader();
+        if (!reader) {
+          // No streaming body, parse the whole response at once
+          if (!handleEvents(parser.push(await response.text()))) {
+            endOfStream();
+          }
+          return;
+        }
+
+        const decoder = new TextDecoder();
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) {
+            break;
+          }
+          if (handleEvents(parser.push(decoder.decode(value, { stream: true })))) {
+            return;
+          }
+        }
+
+        if (!handleEvents(parser.push(decoder.decode()))) {
+          endOfStream();
+        }
+      }).catch((error) => {
+        if (controller.signal.aborted) {
+          // A no-op after unsubscribing; cancelling through options.signal still has to end the stream
+          subscriber.error(abortError());
+          return;
+        }
+        console.error('Streaming error:', error);
+        subscriber.error(error);
+      });
+
+      return () => controller.abort();
+    });
+  }
+
+  private assertApiKey(): void {
+    if (LLM_PROVIDER_DEFAULTS[this.config.type].requiresApiKey && !this.config.apiKey) {
+      throw missingKeyError(this.label);
+    }
+  }
+
+  private completionsUrl(): string {
+    return `${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  private buildBody(prompt: string, stream: boolean, options: GenerateOptions): object {
+    const body: Record<string, unknown> = {
+      model: this.config.model,
+      messages: [
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      stream
+    };
+    if (options.responseSchema) {
+      body['response_format'] = {
+        type: 'json_schema',
+        json_schema: {
+          name: 'response',
+          schema: options.responseSchema
+        }
+      };
+    }
+    return body;
+  }
+}
+
+/**
+ * Creates the provider implementation for a configuration
+ */
+export function createLlmProvider(http: HttpClient, config: LlmProviderConfig): LlmProvider {
+  if (config.type === 'gemini') {
+    return new GeminiProvider(http, config);
+  }
+  return new OpenAiCompatibleProvider(http, config);
+}
+
+/**
+ * An AbortController for one request that also aborts when the caller's signal does
+ */
+function linkAbortController(signal?: AbortSignal): AbortController {
+  const controller = new AbortController();
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener('abort', () => controller.abort(), { once: true });
+  }
+  return controller;
+}
@@ -0,0 +1,43 @@
+import { parsePartialJson } from './partial-json';
+
+describe('parsePartialJson', () => {
+  it('should parse complete JSON, including inside a Markdown code fence', () => {
+    expect(parsePartialJson('{"headline":"Hi","points":[1,2]}')).toEqual({ headline: 'Hi', points: [1, 2] });
+    expect(parsePartialJson('```json\n{"headline":"Hi"}\n```')).toEqual({ headline: 'Hi' });
+  });
+
+  it('should return undefined before any object or array starts', () => {
+    expect(parsePartialJson('')).toBeUndefined();
+    expect(parsePartialJson('Sure, here is')).toBeUndefined();
+  });
+
+  it('should close a string cut off mid-value', () => {
+    expect(parsePartialJson('{"headline":"Caching expl')).toEqual({ headline: 'Caching expl' });
+  });
+
+  it('should close open arrays and objects', () => {
+    expect(parsePartialJson('{"chapters":[{"title":"Intro","startTime":"0:00"},{"title":"Set')).toEqual({
+      chapters: [{ title: 'Intro', startTime: '0:00' }, { title: 'Set' }]
+    });
+  });
+
+  it('should drop a trailing comma or a key still waiting for its value', () => {
+    expect(parsePartialJson('{"headline":"Hi",')).toEqual({ headline: 'Hi' });
+    expect(parsePartialJson('{"headline":"Hi","summ')).toEqual({ headline: 'Hi' });
+    expect(parsePartialJson('{"headline":"Hi","summary":')).toEqual({ headline: 'Hi' });
+  });
+
+  it('should drop an unfinished number or literal', () => {
+    expect(parsePartialJson('{"headline":"Hi","done":tr')).toEqual({ headline: 'Hi' });
+    expect(parsePartialJson('[1, 2, 3')).toEqual([1, 2, 3]);
+  });
+
+  it('should keep escaped quotes and braces inside strings', () => {
+    expect(parsePartialJson('{"summary":"He said \\"{not JSON}\\" and left')).toEqual({ summary: 'He said "{not JSON}" and left' });
+  });
+
+  it('should drop a dangling escape sequence', () => {
+    expect(parsePartialJson('{"summary":"line\\')).toEqual({ summary: 'line' });
+    expect(parsePartialJson('{"summary":"caf\\u00')).toEqual({ summary: 'caf' });
+  });
+});
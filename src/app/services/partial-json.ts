@@ -0,0 +1,71 @@
+/**
+ * Parses JSON that may be cut off mid-stream by closing any open strings, arrays and objects.
+ * Returns undefined when no usable value can be recovered yet.
+ */
+export function parsePartialJson(text: string): unknown {
+  const start = text.search(/[{[]/);
+  if (start === -1) {
+    return undefined;
+  }
+
+  // Models sometimes wrap the JSON in a Markdown code fence
+  const json = text.substring(start).replace(/\s*```\s*$/, '');
+  try {
+    return JSON.parse(json);
+  } catch {
+    // Incomplete, repair below
+  }
+
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of json) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      closers.push('}');
+    } else if (char === '[') {
+      closers.push(']');
+    } else if (char === '}' || char === ']') {
+      closers.pop();
+    }
+  }
+
+  let body = json;
+  if (inString) {
+    // Drop a dangling escape sequence before closing the string
+    body = body.replace(/\\(?:u[0-9a-fA-F]{0,3})?$/, '') + '"';
+  }
+  const suffix = closers.reverse().join('');
+
+  // Try the repaired text as is, then with trailing fragments that cannot be completed removed
+  const candidates = [
+    body,
+    body.replace(/[,\s]+$/, ''),
+    body.replace(/,?\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/, ''),
+    body.replace(/,?\s*"(?:[^"\\]|\\.)*"\s*:\s*[^,{}[\]"]*$/, ''),
+    body.replace(/,?\s*[^,{}[\]":\s]+\s*$/, '')
+  ];
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate + suffix);
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return undefined;
+}
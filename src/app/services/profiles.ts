@@ -0,0 +1,274 @@
+import { Injectable } from '@angular/core';
+import { Subject } from 'rxjs';
+import { Storage } from './storage';
+import { LLM_PROVIDER_DEFAULTS, LlmProviderType } from './llm-provider';
+
+export interface ProfileKeys {
+  apiKey: string | null;
+  geminiApiKey: string | null;
+  togetherApiKey: string | null;
+  openAiApiKey: string | null;
+  transcriptServiceApiKey?: string | null; // Missing from profiles saved before transcript providers
+  creditsRemaining: number | null; // Belongs to the Scrape Creators key
+}
+
+export interface ProfileSettings {
+  llmProvider: LlmProviderType;
+  // Base URL and model overrides per provider; empty strings mean the provider default
+  llmEndpoints: Record<LlmProviderType, { baseUrl: string; model: string }>;
+  summaryStyle: string;
+  summaryLength: number;
+}
+
+/**
+ * A named set of keys and preferences. Keys are stored separately through Storage so the vault covers them.
+ */
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  settings: ProfileSettings;
+}
+
+export interface ProfileExport {
+  version: 1;
+  exportedAt: string;
+  profiles: Array<SettingsProfile & { keys?: ProfileKeys }>;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class Profiles {
+  /** Emits after the active profile or the profile list changes */
+  readonly changes$ = new Subject<void>();
+
+  constructor(private storage: Storage) {}
+
+  getAll(): SettingsProfile[] {
+    return this.storage.getProfiles();
+  }
+
+  getActiveId(): string | null {
+    const id = this.storage.getActiveProfileId();
+    return id && this.getAll().some(profile => profile.id === id) ? id : null;
+  }
+
+  /**
+   * Saves the current settings and keys as a new profile and makes it active
+   */
+  saveCurrentAs(name: string): SettingsProfile {
+    this.assertUnlocked();
+    const profile: SettingsProfile = {
+      id: `profile-${Date.now().toString(36)}`,
+      name: name.trim() || 'Untitled profile',
+      settings: this.captureSettings()
+    };
+    this.storage.setProfiles([...this.getAll(), profile]);
+    this.storage.setProfileKeys(profile.id, this.captureKeys());
+    this.storage.setActiveProfileId(profile.id);
+    this.changes$.next();
+    return profile;
+  }
+
+  /**
+   * Stores the current settings into the active profile, then loads another profile
+   */
+  switchTo(id: string): void {
+    this.assertUnlocked();
+    const target = this.getAll().find(profile => profile.id === id);
+    if (!target) {
+      throw new Error('That profile no longer exists.');
+    }
+
+    this.saveActive();
+    this.applySettings(target.settings);
+    this.applyKeys(this.storage.getProfileKeys(target.id));
+    this.storage.setActiveProfileId(target.id);
+    this.changes$.next();
+  }
+
+  /**
+   * Deletes a profile and its stored keys; the current settings stay as they are
+   */
+  delete(id: string): void {
+    this.assertUnlocked();
+    this.storage.setProfiles(this.getAll().filter(profile => profile.id !== id));
+    this.storage.removeProfileKeys(id);
+    if (this.storage.getActiveProfileId() === id) {
+      this.storage.setActiveProfileId(null);
+    }
+    this.changes$.next();
+  }
+
+  /**
+   * JSON export of every profile, with API keys only when includeKeys is set
+   */
+  exportProfiles(includeKeys: boolean): string {
+    if (includeKeys) {
+      this.assertUnlocked();
+    }
+    this.saveActive();
+
+    const data: ProfileExport = {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      profiles: this.getAll().map(profile => {
+        const keys = includeKeys ? this.storage.getProfileKeys(profile.id) : null;
+        return keys ? { ...profile, keys } : profile;
+      })
+    };
+    return JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * Saves the export as a JSON file
+   */
+  downloadProfiles(includeKeys: boolean): void {
+    const blob = new Blob([this.exportProfiles(includeKeys)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'youtube-magic-profiles.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Adds the profiles from an export as new profiles and returns how many were imported
+   */
+  importProfiles(json: string): number {
+    let data: ProfileExport;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('The file is not valid JSON.');
+    }
+    if (!data || data.version !== 1 || !Array.isArray(data.profiles)) {
+      throw new Error('The file is not a profile export.');
+    }
+
+    const profiles = data.profiles.filter(profile => typeof profile?.name === 'string' && profile.settings);
+    if (profiles.some(profile => profile.keys)) {
+      this.assertUnlocked();
+    }
+
+    const imported: SettingsProfile[] = profiles.map((profile, i) => {
+      const id = `profile-${Date.now().toString(36)}-${i}`;
+      if (profile.keys) {
+        this.storage.setProfileKeys(id, profile.keys);
+      }
+      return { id, name: profile.name, settings: this.normalizeSettings(profile.settings) };
+    });
+
+    this.storage.setProfiles([...this.getAll(), ...imported]);
+    this.changes$.next();
+    return imported.length;
+  }
+
+  /**
+   * Copies the live settings and keys back into the active profile, if there is one.
+   * A locked vault hides the keys, so the profile keeps the ones it has.
+   */
+  private saveActive(): void {
+    const activeId = this.getActiveId();
+    if (!activeId) {
+      return;
+    }
+    this.storage.setProfiles(this.getAll().map(profile => profile.id === activeId ? { ...profile, settings: this.captureSettings() } : profile));
+    if (this.storage.vaultState !== 'locked') {
+      this.storage.setProfileKeys(activeId, this.captureKeys());
+    }
+  }
+
+  private captureSettings(): ProfileSettings {
+    const providers = Object.keys(LLM_PROVIDER_DEFAULTS) as LlmProviderType[];
+    const llmEndpoints = {} as ProfileSettings['llmEndpoints'];
+    for (const provider of providers) {
+      const defaults = LLM_PROVIDER_DEFAULTS[provider];
+      const baseUrl = this.storage.getLlmBaseUrl(provider);
+      const model = this.storage.getLlmModel(provider);
+      llmEndpoints[provider] = {
+        baseUrl: baseUrl === defaults.baseUrl ? '' : baseUrl,
+        model: model === defaults.model ? '' : model
+      };
+    }
+
+    return {
+      llmProvider: this.storage.getLlmProvider(),
+      llmEndpoints,
+      summaryStyle: this.storage.getSummaryStyle(),
+      summaryLength: this.storage.getSummaryLength()
+    };
+  }
+
+  private captureKeys(): ProfileKeys {
+    return {
+      apiKey: this.storage.getApiKey(),
+      geminiApiKey: this.storage.getGeminiApiKey(),
+      togetherApiKey: this.storage.getTogetherApiKey(),
+      openAiApiKey: this.storage.getOpenAiApiKey(),
+      transcriptServiceApiKey: this.storage.getTranscriptServiceApiKey(),
+      creditsRemaining: this.storage.getCreditsRemaining()
+    };
+  }
+
+  private applySettings(settings: ProfileSettings): void {
+    const normalized = this.normalizeSettings(settings);
+    this.storage.setLlmProvider(normalized.llmProvider);
+    for (const [provider, endpoint] of Object.entries(normalized.llmEndpoints) as Array<[LlmProviderType, { baseUrl: string; model: string }]>) {
+      this.storage.setLlmBaseUrl(provider, endpoint.baseUrl);
+      this.storage.setLlmModel(provider, endpoint.model);
+    }
+    this.storage.setSummaryStyle(normalized.summaryStyle);
+    this.storage.setSummaryLength(normalized.summaryLength);
+  }
+
+  /**
+   * Replaces the live keys; a profile saved without keys leaves them empty
+   */
+  private applyKeys(keys: ProfileKeys | null): void {
+    this.storage.clearApiKeys();
+    if (keys?.apiKey) this.storage.setApiKey(keys.apiKey);
+    if (keys?.geminiApiKey) this.storage.setGeminiApiKey(keys.geminiApiKey);
+    if (keys?.togetherApiKey) this.storage.setTogetherApiKey(keys.togetherApiKey);
+    if (keys?.openAiApiKey) this.storage.setOpenAiApiKey(keys.openAiApiKey);
+    if (keys?.transcriptServiceApiKey) this.storage.setTranscriptServiceApiKey(keys.transcriptServiceApiKey);
+
+    if (typeof keys?.creditsRemaining === 'number') {
+      this.storage.setCreditsRemaining(keys.creditsRemaining);
+    } else {
+      this.storage.clearCreditsRemaining();
+    }
+  }
+
+  /**
+   * Fills in anything missing from older or hand-edited profiles
+   */
+  private normalizeSettings(settings: Partial<ProfileSettings>): ProfileSettings {
+    const providers = Object.keys(LLM_PROVIDER_DEFAULTS) as LlmProviderType[];
+    const llmEndpoints = {} as ProfileSettings['llmEndpoints'];
+    for (const provider of providers) {
+      const endpoint = settings.llmEndpoints?.[provider];
+      llmEndpoints[provider] = {
+        baseUrl: typeof endpoint?.baseUrl === 'string' ? endpoint.baseUrl : '',
+        model: typeof endpoint?.model === 'string' ? endpoint.model : ''
+      };
+    }
+
+    return {
+      llmProvider: settings.llmProvider && providers.includes(settings.llmProvider) ? settings.llmProvider : 'gemini',
+      llmEndpoints,
+      summaryStyle: typeof settings.summaryStyle === 'string' ? settings.summaryStyle : 'essay',
+      summaryLength: typeof settings.summaryLength === 'number' ? Math.min(100, Math.max(10, settings.summaryLength)) : 50
+    };
+  }
+
+  private assertUnlocked(): void {
+    if (this.storage.vaultState === 'locked') {
+      throw new Error('Unlock your API keys before changing profiles.');
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { Injectable, isDevMode } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+
+/**
+ * Service worker registration, new-version prompts and connectivity
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class Pwa {
+  private readonly SERVICE_WORKER_URL = '/sw.js';
+  private readonly UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+  private readonly updateAvailableSubject = new BehaviorSubject<boolean>(false);
+  private readonly onlineSubject = new BehaviorSubject<boolean>(typeof navigator === 'undefined' || navigator.onLine);
+  readonly updateAvailable$ = this.updateAvailableSubject.asObservable();
+  readonly online$ = this.onlineSubject.asObservable();
+  private registered = false;
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.onlineSubject.next(true));
+      window.addEventListener('offline', () => this.onlineSubject.next(false));
+    }
+  }
+
+  get online(): boolean {
+    return this.onlineSubject.value;
+  }
+
+  /**
+   * Registers the service worker in production builds. Development builds remove it instead,
+   * so a worker from an earlier production run never serves stale bundles to ng serve.
+   */
+  register(): void {
+    if (this.registered || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+      return;
+    }
+    this.registered = true;
+
+    if (isDevMode()) {
+      navigator.serviceWorker.getRegistrations()
+        .then(registrations => registrations.forEach(registration => registration.unregister()))
+        .catch(err => console.error('Failed to remove the service worker:', err));
+      return;
+    }
+
+    navigator.serviceWorker.addEventListener('message', event => {
+      if (event.data?.type === 'UPDATE_AVAILABLE') {
+        this.updateAvailableSubject.next(true);
+      } else if (event.data?.type === 'UPDATE_ACTIVATED') {
+        // Every open tab reloads, since the bundles it was started with are no longer cached
+        window.location.reload();
+      }
+    });
+
+    navigator.serviceWorker.register(this.SERVICE_WORKER_URL)
+      .catch(err => console.error('Service worker registration failed:', err));
+
+    // Navigations check for a new version too, but an open tab may not navigate for a long time
+    this.checkForUpdate();
+    setInterval(() => this.checkForUpdate(), this.UPDATE_CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Switches to the new version; the worker then asks every open tab to reload
+   */
+  async activateUpdate(): Promise<void> {
+    const registration = await navigator.serviceWorker.ready;
+    registration.active?.postMessage({ type: 'ACTIVATE_UPDATE' });
+  }
+
+  private async checkForUpdate(): Promise<void> {
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      registration.active?.postMessage({ type: 'CHECK_FOR_UPDATE' });
+    } catch (err) {
+      console.error('Failed to check for a new version:', err);
+    }
+  }
+}
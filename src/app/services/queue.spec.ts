@@ -0,0 +1,93 @@
+import { BehaviorSubject, of } from 'rxjs';
+import { Api } from './api';
+import { Library } from './library';
+import { Pwa } from './pwa';
+import { Queue, QueueItem } from './queue';
+import { Storage } from './storage';
+import { Summary } from './summary';
+
+function item(id: number, videoId: string, status: QueueItem['status']): QueueItem {
+  return { id, videoId, title: videoId, status, style: 'default', lengthPercentage: 20 };
+}
+
+describe('Queue', () => {
+  let online: BehaviorSubject<boolean>;
+  let saved: QueueItem[];
+  let summarized: string[];
+
+  function createQueue(): Queue {
+    const api = {
+      hasTranscriptCredits: () => true,
+      getTranscript: (videoId: string) => of({ videoId, transcript: [{ text: 'Hi', startMs: '0', endMs: '1000', startTimeText: '0:00' }] })
+    };
+    const library = {
+      getQueue: async () => saved,
+      saveQueue: async () => undefined,
+      saveTranscript: async () => undefined,
+      addSummary: async () => undefined
+    };
+    const summary = {
+      generateSummary: async () => {
+        summarized.push('summary');
+        return { headline: 'Done' };
+      }
+    };
+    const pwa = { online$: online.asObservable(), get online() { return online.value; } };
+    return new Queue(api as unknown as Api, {} as Storage, summary as unknown as Summary, library as unknown as Library, pwa as unknown as Pwa);
+  }
+
+  async function settle(): Promise<void> {
+    for (let i = 0; i < 20; i++) {
+      await Promise.resolve();
+    }
+  }
+
+  beforeEach(() => {
+    online = new BehaviorSubject(true);
+    saved = [];
+    summarized = [];
+  });
+
+  it('should process a queue restored while offline once the connection returns', async () => {
+    online.next(false);
+    saved = [item(1, 'abc', 'pending')];
+    const queue = createQueue();
+    await settle();
+
+    expect(queue.state.paused).toBeTrue();
+    expect(queue.state.items[0].status).toBe('pending');
+
+    online.next(true);
+    await settle();
+    expect(queue.state.paused).toBeFalse();
+    expect(queue.state.items[0].status).toBe('done');
+  });
+
+  it('should process videos added while offline once the connection returns', async () => {
+    online.next(false);
+    const queue = createQueue();
+    await queue.enqueue([{ type: 'video', id: 'abc' }], 'default', 20);
+    await settle();
+    expect(queue.state.items[0].status).toBe('pending');
+
+    online.next(true);
+    await settle();
+    expect(queue.state.items[0].status).toBe('done');
+  });
+
+  it('should run a finished video again when it is added again, but not one still waiting', async () => {
+    saved = [item(1, 'abc', 'done')];
+    const queue = createQueue();
+    await queue.enqueue([{ type: 'video', id: 'abc' }], 'default', 20);
+    await settle();
+
+    expect(queue.state.items.map(i => i.status)).toEqual(['done', 'done']);
+    expect(summarized.length).toBe(1);
+
+    queue.pause();
+    await queue.enqueue([{ type: 'video', id: 'xyz' }], 'default', 20);
+    await queue.enqueue([{ type: 'video', id: 'xyz' }], 'default', 20);
+    expect(queue.state.items.filter(i => i.videoId === 'xyz').length).toBe(1);
+    expect(queue.state.message).toBe('1 video is already waiting in the queue and was not added again.');
+  });
+});
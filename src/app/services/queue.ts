@@ -0,0 +1,328 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, firstValueFrom } from 'rxjs';
+import { Api, VideoListResponse, VideoSource } from './api';
+import { Storage } from './storage';
+import { Summary } from './summary';
+import { Library } from './library';
+import { abortWith, isApiError } from './errors';
+import { Pwa } from './pwa';
+
+export type QueueItemStatus = 'pending' | 'fetching' | 'summarizing' | 'done' | 'error' | 'skipped';
+
+export interface QueueItem {
+  id: number;
+  videoId: string;
+  title: string;
+  status: QueueItemStatus;
+  style: string;
+  lengthPercentage: number;
+  error?: string;
+}
+
+export interface QueueState {
+  items: QueueItem[];
+  running: boolean;
+  paused: boolean;
+  expanding: boolean; // Resolving playlist or channel URLs into videos
+  message: string;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class Queue {
+  private readonly stateSubject = new BehaviorSubject<QueueState>({
+    items: [],
+    running: false,
+    paused: false,
+    expanding: false,
+    message: ''
+  });
+  readonly state$ = this.stateSubject.asObservable();
+  private nextId = 1;
+  private active: { id: number; controller: AbortController } | null = null; // Item being processed
+  private pausedOffline = false; // Resume automatically when the connection returns
+  private readonly restored: Promise<void>;
+  private saved: Promise<void>; // Latest write of the items to the library
+
+  constructor(
+    private api: Api,
+    private storage: Storage,
+    private summaryService: Summary,
+    private library: Library,
+    private pwa: Pwa
+  ) {
+    this.restored = this.restore();
+    this.saved = this.restored;
+    this.pwa.online$.subscribe(online => {
+      if (online && this.pausedOffline) {
+        this.resume();
+      }
+    });
+  }
+
+  get state(): QueueState {
+    return this.stateSubject.value;
+  }
+
+  /**
+   * Whether pasted text should go to the queue rather than the single-video flow
+   */
+  isBatchInput(sources: VideoSource[]): boolean {
+    return sources.length > 1 || sources.some(source => source.type !== 'video');
+  }
+
+  /**
+   * Expands playlists and channels, adds every video to the queue and starts processing
+   */
+  async enqueue(sources: VideoSource[], style: string, lengthPercentage: number): Promise<void> {
+    await this.restored;
+    this.update({ expanding: true, message: '' });
+    // Finished, failed and skipped videos can be added again to run them once more
+    const queued = new Set(this.state.items.filter(item => this.isWaiting(item)).map(item => item.videoId));
+    const added: QueueItem[] = [];
+    const failures: string[] = [];
+    let duplicates = 0;
+    let keyError = ''; // Listing needs the Scrape Creators key even when transcripts come from another provider
+
+    for (const source of sources) {
+      let videos: Array<{ videoId: string; title?: string }> = [];
+      if (source.type === 'video') {
+        videos = [{ videoId: source.id }];
+      } else {
+        try {
+          const response: VideoListResponse = await firstValueFrom(
+            source.type === 'playlist' ? this.api.getPlaylistVideos(source.id) : this.api.getChannelVideos(source.id)
+          );
+          if (typeof response.credits_remaining === 'number') {
+            this.storage.setCreditsRemaining(response.credits_remaining);
+          }
+          videos = response.videos;
+        } catch (err: any) {
+          console.error(`Failed to expand ${source.type}:`, err);
+          failures.push(`${source.type} ${source.id}`);
+          if (isApiError(err) && ['missing-key', 'invalid-key', 'out-of-credits'].includes(err.kind)) {
+            keyError = err.message;
+          }
+          continue;
+        }
+      }
+
+      for (const video of videos) {
+        if (queued.has(video.videoId)) {
+          duplicates++;
+          continue;
+        }
+        queued.add(video.videoId);
+        added.push({
+          id: this.nextId++,
+          videoId: video.videoId,
+          title: video.title || video.videoId,
+          status: 'pending',
+          style,
+          lengthPercentage
+        });
+      }
+    }
+
+    const messages: string[] = [];
+    if (failures.length > 0) {
+      messages.push(`Could not load videos for ${failures.join(', ')}.${keyError ? ` ${keyError}` : ''}`);
+    }
+    if (duplicates > 0) {
+      messages.push(`${duplicates} ${duplicates === 1 ? 'video is' : 'videos are'} already waiting in the queue and ${duplicates === 1 ? 'was' : 'were'} not added again.`);
+    }
+    this.update({
+      items: [...this.state.items, ...added],
+      expanding: false,
+      message: messages.join(' ')
+    });
+
+    if (!this.state.paused) {
+      this.run();
+    }
+  }
+
+  pause(): void {
+    this.pausedOffline = false;
+    this.update({ paused: true });
+  }
+
+  resume(): void {
+    this.pausedOffline = false;
+    this.update({ paused: false, message: '' });
+    this.run();
+  }
+
+  /**
+   * Skips a pending item, or cancels the requests of the one being processed
+   */
+  skip(id: number): void {
+    this.updateItem(id, item => item.status === 'done' ? item : { ...item, status: 'skipped', error: undefined });
+    if (this.active?.id === id) {
+      this.active.controller.abort();
+    }
+  }
+
+  /**
+   * Puts a failed or skipped item back in line
+   */
+  retry(id: number): void {
+    this.updateItem(id, item => ({ ...item, status: 'pending', error: undefined }));
+    if (!this.state.paused) {
+      this.run();
+    }
+  }
+
+  /**
+   * Removes finished, failed and skipped items
+   */
+  clearFinished(): void {
+    this.update({
+      items: this.state.items.filter(item => this.isWaiting(item))
+    });
+  }
+
+  /**
+   * Brings back the queue saved before the page was closed. Videos that were being processed start
+   * over, and waiting videos are processed right away, or once the connection returns if offline.
+   */
+  private async restore(): Promise<void> {
+    let saved: QueueItem[];
+    try {
+      saved = await this.library.getQueue();
+    } catch (err) {
+      console.error('Failed to restore the queue:', err);
+      return;
+    }
+    if (saved.length === 0) {
+      return;
+    }
+
+    const restored = saved.map(item =>
+      item.status === 'fetching' || item.status === 'summarizing' ? { ...item, status: 'pending' as const } : item
+    );
+    this.nextId = Math.max(...restored.map(item => item.id)) + 1;
+    this.update({ items: restored });
+    if (restored.some(item => item.status === 'pending')) {
+      this.run();
+    }
+  }
+
+  /**
+   * Processes pending items one at a time until the queue is empty, paused, or out of credits
+   */
+  private async run(): Promise<void> {
+    if (this.state.running) {
+      return;
+    }
+    this.update({ running: true });
+
+    try {
+      while (!this.state.paused) {
+        const item = this.state.items.find(i => i.status === 'pending');
+        if (!item) {
+          break;
+        }
+
+        if (!this.pwa.online) {
+          this.pauseOffline();
+          break;
+        }
+
+        if (!this.api.hasTranscriptCredits()) {
+          this.update({ paused: true, message: 'Queue paused: you have no credits remaining.' });
+          break;
+        }
+
+        await this.processItem(item);
+      }
+    } finally {
+      this.update({ running: false });
+    }
+  }
+
+  private async processItem(item: QueueItem): Promise<void> {
+    this.updateItem(item.id, i => ({ ...i, status: 'fetching' }));
+    const controller = new AbortController();
+    this.active = { id: item.id, controller };
+
+    try {
+      const response = await firstValueFrom(this.api.getTranscript(item.videoId).pipe(abortWith(controller.signal)));
+      if (!response.cachedAt && response.provider === 'scrapecreators' && typeof response.credits_remaining === 'number') {
+        this.storage.setCreditsRemaining(response.credits_remaining);
+      }
+      await this.library.saveTranscript(response);
+      if (this.isSkipped(item.id)) {
+        return;
+      }
+
+      if (!response.transcript || response.transcript.length === 0) {
+        this.updateItem(item.id, i => ({ ...i, status: 'error', error: 'No transcript available for this video.' }));
+        return;
+      }
+
+      this.updateItem(item.id, i => ({ ...i, status: 'summarizing' }));
+      const result = await this.summaryService.generateSummary(response.transcript, item.lengthPercentage, item.style, controller.signal);
+      if (this.isSkipped(item.id)) {
+        return;
+      }
+
+      await this.library.addSummary(item.videoId, {
+        ...result,
+        style: item.style,
+        lengthPercentage: item.lengthPercentage
+      });
+      this.updateItem(item.id, i => ({ ...i, status: 'done', title: result.headline || i.title }));
+    } catch (err: any) {
+      console.error(`Failed to process queued video ${item.videoId}:`, err);
+      // The connection dropped mid-request; try the video again once it returns
+      if (isApiError(err) && err.kind === 'network' && !this.pwa.online && !this.isSkipped(item.id)) {
+        this.updateItem(item.id, i => ({ ...i, status: 'pending' }));
+        this.pauseOffline();
+        return;
+      }
+      if (!this.isSkipped(item.id)) {
+        this.updateItem(item.id, i => ({ ...i, status: 'error', error: err?.message || 'Failed to process this video.' }));
+      }
+      // Every remaining video would fail the same way, so stop until the key or credits are fixed
+      if (isApiError(err) && ['missing-key', 'invalid-key', 'out-of-credits'].includes(err.kind)) {
+        this.update({ paused: true, message: `Queue paused: ${err.message}` });
+      }
+    } finally {
+      this.active = null;
+    }
+  }
+
+  private pauseOffline(): void {
+    this.pausedOffline = true;
+    this.update({ paused: true, message: 'You are offline. Queued videos will be processed when the connection returns.' });
+  }
+
+  private isWaiting(item: QueueItem): boolean {
+    return item.status === 'pending' || item.status === 'fetching' || item.status === 'summarizing';
+  }
+
+  private isSkipped(id: number): boolean {
+    return this.state.items.find(item => item.id === id)?.status === 'skipped';
+  }
+
+  private updateItem(id: number, change: (item: QueueItem) => QueueItem): void {
+    this.update({
+      items: this.state.items.map(item => item.id === id ? change(item) : item)
+    });
+  }
+
+  private update(change: Partial<QueueState>): void {
+    const previous = this.state;
+    this.stateSubject.next({ ...previous, ...change });
+
+    const items = this.state.items;
+    if (items !== previous.items) {
+      // Writes are chained so an older list never lands after a newer one
+      this.saved = this.saved
+        .then(() => this.library.saveQueue(items))
+        .catch(err => console.error('Failed to save the queue:', err));
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { ApiError } from './errors';
+import { SseEvent, SseParser, geminiFinishError, parseChatCompletionEvent, parseGeminiEvent } from './sse-parser';
+
+function message(data: string): SseEvent {
+  return { type: 'message', data, lastEventId: '' };
+}
+
+describe('SseParser', () => {
+  it('should parse complete events', () => {
+    const parser = new SseParser();
+    const events = parser.push('data: first\n\ndata: second\n\n');
+    expect(events.map(event => event.data)).toEqual(['first', 'second']);
+    expect(events[0].type).toBe('message');
+  });
+
+  it('should hold partial frames until their blank line arrives', () => {
+    const parser = new SseParser();
+    expect(parser.push('da')).toEqual([]);
+    expect(parser.push('ta: {"a":')).toEqual([]);
+    expect(parser.push(' 1}\n')).toEqual([]);
+    expect(parser.push('\n').map(event => event.data)).toEqual(['{"a": 1}']);
+  });
+
+  it('should accept CRLF, LF and CR line endings, including CRLF split across chunks', () => {
+    const parser = new SseParser();
+    expect(parser.push('data: a\r\n\r\ndata: b\r\rdata: c\r').map(event => event.data)).toEqual(['a', 'b']);
+    expect(parser.push('\n\r\n').map(event => event.data)).toEqual(['c']);
+  });
+
+  it('should join multi-line data with newlines', () => {
+    const parser = new SseParser();
+    expect(parser.push('data: line 1\ndata:line 2\ndata\n\n')[0].data).toBe('line 1\nline 2\n');
+  });
+
+  it('should keep braces and colons inside data intact', () => {
+    const parser = new SseParser();
+    const data = '{"text":"a } unbalanced { brace: \\"quoted\\""}';
+    expect(parser.push(`data: ${data}\n\n`)[0].data).toBe(data);
+  });
+
+  it('should ignore comments, unknown fields and events without data', () => {
+    const parser = new SseParser();
+    expect(parser.push(': keep-alive\n\nfoo: bar\n\nevent: ping\n\n')).toEqual([]);
+  });
+
+  it('should read event types, ids and retry times', () => {
+    const parser = new SseParser();
+    const [event] = parser.push('event: update\nid: 7\nretry: 3000\ndata: x\n\n');
+    expect(event).toEqual({ type: 'update', data: 'x', lastEventId: '7' });
+    expect(parser.retry).toBe(3000);
+    expect(parser.push('data: y\n\n')[0]).toEqual({ type: 'message', data: 'y', lastEventId: '7' });
+  });
+
+  it('should strip a leading byte order mark', () => {
+    const parser = new SseParser();
+    expect(parser.push('\uFEFFdata: x\n\n')[0].data).toBe('x');
+  });
+
+  it('should drop a partial event on reset', () => {
+    const parser = new SseParser();
+    parser.push('data: partial\n');
+    parser.reset();
+    expect(parser.push('data: next\n\n').map(event => event.data)).toEqual(['next']);
+  });
+});
+
+describe('parseGeminiEvent', () => {
+  it('should join the text parts and skip thoughts', () => {
+    const chunk = parseGeminiEvent(message(JSON.stringify({
+      candidates: [{ content: { parts: [{ text: 'thinking', thought: true }, { text: 'Hello ' }, { text: 'world' }] } }]
+    })), 'Gemini AI');
+    expect(chunk).toEqual({ text: 'Hello world', finishReason: null });
+  });
+
+  it('should return the finish reason of the last event', () => {
+    const chunk = parseGeminiEvent(message(JSON.stringify({
+      candidates: [{ content: { parts: [{ text: '.' }] }, finishReason: 'STOP' }]
+    })), 'Gemini AI');
+    expect(chunk.finishReason).toBe('STOP');
+  });
+
+  it('should throw a typed error for error frames', () => {
+    const event = message(JSON.stringify({ error: { code: 429, message: 'Resource exhausted', status: 'RESOURCE_EXHAUSTED' } }));
+    expect(() => parseGeminiEvent(event, 'Gemini AI')).toThrowMatching(
+      (error: ApiError) => error instanceof ApiError && error.kind === 'rate-limited' && error.status === 429
+    );
+  });
+
+  it('should throw when the prompt is blocked', () => {
+    const event = message(JSON.stringify({ promptFeedback: { blockReason: 'SAFETY' } }));
+    expect(() => parseGeminiEvent(event, 'Gemini AI')).toThrowMatching(
+      (error: ApiError) => error instanceof ApiError && error.kind === 'content-blocked'
+    );
+  });
+
+  it('should throw for unreadable data', () => {
+    expect(() => parseGeminiEvent(message('{"candidates": ['), 'Gemini AI')).toThrowMatching(
+      (error: ApiError) => error instanceof ApiError && error.kind === 'unknown'
+    );
+  });
+});
+
+describe('geminiFinishError', () => {
+  it('should accept STOP and MAX_TOKENS', () => {
+    expect(geminiFinishError('STOP', 'Gemini AI')).toBeNull();
+    expect(geminiFinishError('MAX_TOKENS', 'Gemini AI')).toBeNull();
+  });
+
+  it('should report safety stops as blocked content', () => {
+    const error = geminiFinishError('PROHIBITED_CONTENT', 'Gemini AI');
+    expect(error?.kind).toBe('content-blocked');
+    expect(error?.message).toContain('prohibited content');
+  });
+
+  it('should report other finish reasons as failures', () => {
+    expect(geminiFinishError('MALFORMED_FUNCTION_CALL', 'Gemini AI')?.kind).toBe('unknown');
+  });
+});
+
+describe('parseChatCompletionEvent', () => {
+  it('should return the text delta and finish reason', () => {
+    const event = message(JSON.stringify({ choices: [{ delta: { content: 'Hello' }, finish_reason: null }] }));
+    expect(parseChatCompletionEvent(event, 'OpenAI-compatible')).toEqual({ text: 'Hello', finishReason: null, done: false });
+    const last = message(JSON.stringify({ choices: [{ delta: {}, finish_reason: 'stop' }] }));
+    expect(parseChatCompletionEvent(last, 'OpenAI-compatible')).toEqual({ text: '', finishReason: 'stop', done: false });
+  });
+
+  it('should recognize the [DONE] sentinel', () => {
+    expect(parseChatCompletionEvent(message('[DONE]'), 'OpenAI-compatible').done).toBeTrue();
+  });
+
+  it('should throw a typed error for error frames', () => {
+    const event = message(JSON.stringify({ error: { message: 'You exceeded your current quota', type: 'insufficient_quota' } }));
+    expect(() => parseChatCompletionEvent(event, 'OpenAI-compatible')).toThrowMatching(
+      (error: ApiError) => error instanceof ApiError && error.kind === 'out-of-credits' && error.service === 'OpenAI-compatible'
+    );
+  });
+
+  it('should throw for unreadable data', () => {
+    expect(() => parseChatCompletionEvent(message('{"choices": ['), 'Ollama')).toThrowMatching(
+      (error: ApiError) => error instanceof ApiError && error.kind === 'unknown'
+    );
+  });
+});
@@ -0,0 +1,250 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { ApiError, classifyHttpError, describeApiError, toApiError } from './errors';
+import { ChatCompletionResponse, GeminiResponse } from './llm-provider';
+
+/**
+ * A dispatched server-sent event
+ */
+export interface SseEvent {
+  type: string; // "message" unless the event had an event field
+  data: string;
+  lastEventId: string;
+}
+
+/**
+ * One streamed Gemini response event
+ */
+export interface GeminiStreamChunk {
+  text: string; // Every text part of the event, joined
+  finishReason: string | null; // Set on the last event of the response
+}
+
+/**
+ * One streamed event of an OpenAI-compatible chat completions response
+ */
+export interface ChatCompletionStreamChunk {
+  text: string;
+  finishReason: string | null; // Set on the last chunk of the response
+  done: boolean; // The [DONE] sentinel that ends the stream
+}
+
+// Finish reasons that mean the model finished on its own terms; MAX_TOKENS keeps the text generated so far
+const GEMINI_COMPLETE_REASONS = ['STOP', 'MAX_TOKENS'];
+const GEMINI_BLOCKED_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'LANGUAGE'];
+
+/**
+ * Incremental parser for text/event-stream bodies, following the event stream interpretation
+ * rules of the HTML standard. Chunks may end anywhere, including between the CR and LF of a line
+ * ending; an event is returned once its terminating blank line has arrived.
+ */
+export class SseParser {
+  private buffer = '';
+  private started = false;
+  private skipLineFeed = false; // The previous chunk ended with CR, so a leading LF belongs to that line ending
+  private eventType = '';
+  private data = '';
+  private lastEventId = '';
+
+  /** Reconnection time sent by the server in a retry field, if any */
+  retry: number | null = null;
+
+  /**
+   * Parses the next decoded chunk of the stream and returns the events it completed
+   */
+  push(chunk: string): SseEvent[] {
+    if (this.skipLineFeed && chunk) {
+      this.skipLineFeed = false;
+      if (chunk[0] === '\n') {
+        chunk = chunk.substring(1);
+      }
+    }
+    if (!this.started && chunk) {
+      this.started = true;
+      chunk = chunk.replace(/^\uFEFF/, '');
+    }
+
+    this.buffer += chunk;
+    const events: SseEvent[] = [];
+    let lineStart = 0;
+
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== '\r' && char !== '\n') {
+        continue;
+      }
+
+      const line = this.buffer.substring(lineStart, i);
+      if (char === '\r') {
+        if (i + 1 < this.buffer.length) {
+          if (this.buffer[i + 1] === '\n') {
+            i++;
+          }
+        } else {
+          this.skipLineFeed = true;
+        }
+      }
+      lineStart = i + 1;
+
+      const event = this.processLine(line);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    this.buffer = this.buffer.substring(lineStart);
+    return events;
+  }
+
+  /**
+   * Forgets any partial event, e.g. when the stream ended without a final blank line
+   */
+  reset(): void {
+    this.buffer = '';
+    this.started = false;
+    this.skipLineFeed = false;
+    this.eventType = '';
+    this.data = '';
+  }
+
+  private processLine(line: string): SseEvent | null {
+    if (line === '') {
+      return this.dispatch();
+    }
+    if (line[0] === ':') {
+      return null; // Comment, e.g. a keep-alive
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.substring(0, colon);
+    let value = colon === -1 ? '' : line.substring(colon + 1);
+    if (value[0] === ' ') {
+      value = value.substring(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.data += value + '\n';
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = parseInt(value, 10);
+        }
+        break;
+      // Other fields are ignored
+    }
+    return null;
+  }
+
+  private dispatch(): SseEvent | null {
+    if (this.data === '') {
+      this.eventType = '';
+      return null;
+    }
+
+    const event: SseEvent = {
+      type: this.eventType || 'message',
+      data: this.data.endsWith('\n') ? this.data.slice(0, -1) : this.data,
+      lastEventId: this.lastEventId
+    };
+    this.eventType = '';
+    this.data = '';
+    return event;
+  }
+}
+
+/**
+ * Reads one event of a Gemini streamGenerateContent?alt=sse response.
+ * Throws an ApiError for error frames and blocked prompts.
+ */
+export function parseGeminiEvent(event: SseEvent, service: string): GeminiStreamChunk {
+  let data: GeminiResponse & {
+    error?: { code?: number; message?: string; status?: string };
+    promptFeedback?: { blockReason?: string };
+  };
+  try {
+    data = JSON.parse(event.data);
+  } catch {
+    throw new ApiError('unknown', `${service} sent an unreadable response.`, service);
+  }
+
+  if (data?.error) {
+    const status = typeof data.error.code === 'number' ? data.error.code : 500;
+    const message = data.error.message || '';
+    const kind = classifyHttpError(status, message, data.error.status || '');
+    throw new ApiError(kind, describeApiError(kind, service, status, message), service, status);
+  }
+
+  const blockReason = data?.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new ApiError('content-blocked', describeApiError('content-blocked', service, undefined, formatReason(blockReason)), service);
+  }
+
+  const candidate = data?.candidates?.[0];
+  const text = (candidate?.content?.parts || [])
+    .filter(part => !part.thought && typeof part.text === 'string')
+    .map(part => part.text)
+    .join('');
+
+  return { text, finishReason: candidate?.finishReason || null };
+}
+
+/**
+ * Reads one event of an OpenAI-compatible chat completions stream.
+ * Throws an ApiError for error frames sent in place of a chunk.
+ */
+export function parseChatCompletionEvent(event: SseEvent, service: string): ChatCompletionStreamChunk {
+  if (event.data.trim() === '[DONE]') {
+    return { text: '', finishReason: null, done: true };
+  }
+
+  let data: ChatCompletionResponse & { error?: { code?: number | string; message?: string; type?: string } | string };
+  try {
+    data = JSON.parse(event.data);
+  } catch {
+    throw new ApiError('unknown', `${service} sent an unreadable response.`, service);
+  }
+
+  if (data?.error) {
+    // Error frames carry the same payload as an error response, but no HTTP status
+    const code = typeof data.error === 'object' ? data.error.code : undefined;
+    throw toApiError(new HttpErrorResponse({ status: typeof code === 'number' ? code : 500, error: data }), service);
+  }
+
+  const choice = data?.choices?.[0];
+  return { text: choice?.delta?.content || '', finishReason: choice?.finish_reason || null, done: false };
+}
+
+/**
+ * The error for a stream that ended before the response was complete, e.g. a dropped connection
+ */
+export function truncatedStreamError(service: string): ApiError {
+  return new ApiError('network', `${service} stopped sending the response before it was complete.`, service);
+}
+
+/**
+ * The error for a finish reason that cut the response short, or null when the response is usable
+ */
+export function geminiFinishError(finishReason: string, service: string): ApiError | null {
+  if (GEMINI_COMPLETE_REASONS.includes(finishReason)) {
+    return null;
+  }
+  if (GEMINI_BLOCKED_REASONS.includes(finishReason)) {
+    return new ApiError('content-blocked', describeApiError('content-blocked', service, undefined, formatReason(finishReason)), service);
+  }
+  return new ApiError('unknown', `${service} stopped the response early (${formatReason(finishReason)}).`, service);
+}
+
+/**
+ * PROHIBITED_CONTENT -> "prohibited content"
+ */
+function formatReason(reason: string): string {
+  return reason.toLowerCase().replace(/_/g, ' ');
+}
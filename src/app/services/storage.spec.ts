@@ -0,0 +1,48 @@
+import { Storage } from './storage';
+
+describe('Storage key vault', () => {
+  let storage: Storage;
+
+  beforeEach(() => {
+    localStorage.clear();
+    storage = new Storage();
+  });
+
+  afterEach(() => {
+    storage.lockVault();
+    localStorage.clear();
+  });
+
+  it('should refuse key changes while locked', async () => {
+    await storage.enableVault('old passphrase');
+    storage.lockVault();
+
+    expect(() => storage.setGeminiApiKey('gemini-key')).toThrowError(/Unlock/);
+  });
+
+  it('should keep keys saved around a passphrase change under the new passphrase', async () => {
+    await storage.enableVault('old passphrase');
+
+    // One save is queued before the change starts, the other while it runs
+    storage.setApiKey('scrape-key');
+    const change = storage.changeVaultPassphrase('old passphrase', 'new passphrase');
+    storage.setGeminiApiKey('gemini-key');
+    await change;
+
+    storage.lockVault();
+    await expectAsync(storage.unlockVault('old passphrase')).toBeRejectedWithError('Incorrect passphrase.');
+    await storage.unlockVault('new passphrase');
+    expect(storage.getApiKey()).toBe('scrape-key');
+    expect(storage.getGeminiApiKey()).toBe('gemini-key');
+  });
+
+  it('should reject a passphrase change with the wrong current passphrase', async () => {
+    await storage.enableVault('old passphrase');
+    storage.setApiKey('scrape-key');
+
+    await expectAsync(storage.changeVaultPassphrase('wrong passphrase', 'new passphrase')).toBeRejectedWithError('Incorrect passphrase.');
+    storage.lockVault();
+    await storage.unlockVault('old passphrase');
+    expect(storage.getApiKey()).toBe('scrape-key');
+  });
+});
@@ -1,4 +1,16 @@
 import { Injectable } from '@angular/core';
+import { LLM_PROVIDER_DEFAULTS, LlmProviderConfig, LlmProviderType } from './llm-provider';
+import { SummaryTemplate } from './templates';
+import { ProfileKeys, SettingsProfile } from './profiles';
+import { DEFAULT_TTS_VOICE } from './tts-voices';
+import { DEFAULT_TRANSCRIPT_FIELD_MAPPING, TRANSCRIPT_PROVIDER_DEFAULTS, TranscriptFieldMapping, TranscriptProviderConfig, TranscriptProviderType } from './transcript-provider';
+import { BehaviorSubject } from 'rxjs';
+import { EncryptedVault, VaultSecrets, createVaultSalt, decryptVault, deriveVaultKey, encryptVault, fromBase64 } from './vault';
+
+/**
+ * disabled: keys are stored in plain text; locked/unlocked: keys are encrypted with a passphrase
+ */
+export type VaultState = 'disabled' | 'locked' | 'unlocked';
 
 @Injectable({
   providedIn: 'root',
@@ -9,31 +21,63 @@ export class Storage {
   private readonly TOGETHER_API_KEY_STORAGE_KEY = 'together_api_key';
   private readonly CREDITS_STORAGE_KEY = 'scrape_creators_credits';
   private readonly SUMMARY_STYLE_KEY = 'summary_style';
+  private readonly SUMMARY_TEMPLATES_KEY = 'summary_templates';
+  private readonly OPENAI_API_KEY_STORAGE_KEY = 'openai_api_key';
+  private readonly LLM_PROVIDER_KEY = 'llm_provider';
+  private readonly LLM_BASE_URL_KEY_PREFIX = 'llm_base_url_';
+  private readonly LLM_MODEL_KEY_PREFIX = 'llm_model_';
+  private readonly TRANSCRIPT_SERVICE_API_KEY_STORAGE_KEY = 'transcript_service_api_key';
+  private readonly TRANSCRIPT_PROVIDER_KEY = 'transcript_provider';
+  private readonly TRANSCRIPT_FALLBACK_PROVIDER_KEY = 'transcript_fallback_provider';
+  private readonly TRANSCRIPT_BASE_URL_KEY_PREFIX = 'transcript_base_url_';
+  private readonly TRANSCRIPT_FIELD_MAPPING_KEY = 'transcript_field_mapping';
+  private readonly TRANSCRIPT_CACHE_TTL_KEY = 'transcript_cache_ttl_hours';
+  private readonly DEFAULT_TRANSCRIPT_CACHE_TTL_HOURS = 24 * 7;
+  private readonly SUMMARY_LANGUAGE_KEY = 'summary_language';
+  private readonly TRANSCRIPT_LANGUAGE_KEY = 'transcript_language';
+  private readonly SUMMARY_LENGTH_KEY = 'summary_length';
+  private readonly DEFAULT_SUMMARY_LENGTH = 50;
+  private readonly TTS_VOICE_KEY = 'tts_voice';
+  private readonly TTS_PLAYBACK_RATE_KEY = 'tts_playback_rate';
+  private readonly PROFILES_KEY = 'settings_profiles';
+  private readonly ACTIVE_PROFILE_KEY = 'active_settings_profile';
+  private readonly PROFILE_KEYS_PREFIX = 'profile_keys_';
+  private readonly VAULT_KEY = 'key_vault';
+  private readonly VAULT_IDLE_MINUTES_KEY = 'vault_idle_minutes';
+  private readonly DEFAULT_VAULT_IDLE_MINUTES = 15;
+  // API keys that move into the vault when it is enabled
+  private readonly SECRET_KEYS = [
+    this.API_KEY_STORAGE_KEY,
+    this.GEMINI_API_KEY_STORAGE_KEY,
+    this.TOGETHER_API_KEY_STORAGE_KEY,
+    this.OPENAI_API_KEY_STORAGE_KEY,
+    this.TRANSCRIPT_SERVICE_API_KEY_STORAGE_KEY
+  ];
+  private readonly IDLE_EVENTS = ['pointerdown', 'keydown', 'mousemove', 'scroll'];
+
+  // Vault session state: the derived key and decrypted secrets only live in memory
+  private vaultKey: CryptoKey | null = null;
+  private vaultSalt: Uint8Array | null = null;
+  private vaultSecrets: VaultSecrets | null = null;
+  private vaultWrite: Promise<void> = Promise.resolve();
+  private idleTimer: any = null;
+  private readonly vaultStateSubject = new BehaviorSubject<VaultState>(this.isVaultEnabled() ? 'locked' : 'disabled');
+  readonly vaultState$ = this.vaultStateSubject.asObservable();
 
   getApiKey(): string | null {
-    if (typeof window !== 'undefined' && window.localStorage) {
-      return localStorage.getItem(this.API_KEY_STORAGE_KEY);
-    }
-    return null;
+    return this.getSecret(this.API_KEY_STORAGE_KEY);
   }
 
   setApiKey(key: string): void {
-    if (typeof window !== 'undefined' && window.localStorage) {
-      localStorage.setItem(this.API_KEY_STORAGE_KEY, key);
-    }
+    this.setSecret(this.API_KEY_STORAGE_KEY, key);
   }
 
   getGeminiApiKey(): string | null {
-    if (typeof window !== 'undefined' && window.localStorage) {
-      return localStorage.getItem(this.GEMINI_API_KEY_STORAGE_KEY);
-    }
-    return null;
+    return this.getSecret(this.GEMINI_API_KEY_STORAGE_KEY);
   }
 
   setGeminiApiKey(key: string): void {
-    if (typeof window !== 'undefined' && window.localStorage) {
-      localStorage.setItem(this.GEMINI_API_KEY_STORAGE_KEY, key);
-    }
+    this.setSecret(this.GEMINI_API_KEY_STORAGE_KEY, key);
   }
 
   getCreditsRemaining(): number | null {
@@ -50,16 +94,29 @@ export class Storage {
     }
   }
 
+  clearCreditsRemaining(): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      localStorage.removeItem(this.CREDITS_STORAGE_KEY);
+    }
+  }
+
   hasApiKey(): boolean {
     return this.getApiKey() !== null;
   }
 
+  /**
+   * Removes every API key, e.g. before loading another profile's keys
+   */
+  clearApiKeys(): void {
+    this.SECRET_KEYS.forEach(key => this.removeSecret(key));
+  }
+
   hasGeminiApiKey(): boolean {
     return this.getGeminiApiKey() !== null;
   }
 
   hasAllApiKeys(): boolean {
-    return this.hasApiKey() && this.hasGeminiApiKey() && this.hasTogetherApiKey();
+    return this.hasTranscriptProviderKey() && this.hasSummaryApiKey() && this.hasTogetherApiKey();
   }
 
   getSummaryStyle(): string {
@@ -75,20 +132,649 @@ export class Storage {
     }
   }
 
-  getTogetherApiKey(): string | null {
+  /**
+   * Default summary length percentage for the slider
+   */
+  getSummaryLength(): number {
     if (typeof window !== 'undefined' && window.localStorage) {
-      return localStorage.getItem(this.TOGETHER_API_KEY_STORAGE_KEY);
+      const length = parseInt(localStorage.getItem(this.SUMMARY_LENGTH_KEY) || '', 10);
+      if (!isNaN(length)) {
+        return Math.min(100, Math.max(10, length));
+      }
     }
-    return null;
+    return this.DEFAULT_SUMMARY_LENGTH;
   }
 
-  setTogetherApiKey(key: string): void {
+  setSummaryLength(length: number): void {
     if (typeof window !== 'undefined' && window.localStorage) {
-      localStorage.setItem(this.TOGETHER_API_KEY_STORAGE_KEY, key);
+      localStorage.setItem(this.SUMMARY_LENGTH_KEY, length.toString());
     }
   }
 
+  /**
+   * User-created summary templates; built-in templates are not stored
+   */
+  getCustomTemplates(): SummaryTemplate[] {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      try {
+        const templates = JSON.parse(localStorage.getItem(this.SUMMARY_TEMPLATES_KEY) || '[]');
+        return Array.isArray(templates) ? templates : [];
+      } catch {
+        return [];
+      }
+    }
+    return [];
+  }
+
+  setCustomTemplates(templates: SummaryTemplate[]): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      localStorage.setItem(this.SUMMARY_TEMPLATES_KEY, JSON.stringify(templates));
+    }
+  }
+
+  getTogetherApiKey(): string | null {
+    return this.getSecret(this.TOGETHER_API_KEY_STORAGE_KEY);
+  }
+
+  setTogetherApiKey(key: string): void {
+    this.setSecret(this.TOGETHER_API_KEY_STORAGE_KEY, key);
+  }
+
   hasTogetherApiKey(): boolean {
     return this.getTogetherApiKey() !== null;
   }
-}
\ No newline at end of file
+
+  getOpenAiApiKey(): string | null {
+    return this.getSecret(this.OPENAI_API_KEY_STORAGE_KEY);
+  }
+
+  setOpenAiApiKey(key: string): void {
+    this.setSecret(this.OPENAI_API_KEY_STORAGE_KEY, key);
+  }
+
+  hasOpenAiApiKey(): boolean {
+    return this.getOpenAiApiKey() !== null;
+  }
+
+  getLlmProvider(): LlmProviderType {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      const provider = localStorage.getItem(this.LLM_PROVIDER_KEY);
+      if (provider && provider in LLM_PROVIDER_DEFAULTS) {
+        return provider as LlmProviderType;
+      }
+    }
+    return 'gemini';
+  }
+
+  setLlmProvider(provider: LlmProviderType): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      localStorage.setItem(this.LLM_PROVIDER_KEY, provider);
+    }
+  }
+
+  /**
+   * Base URL for a provider, falling back to its public default
+   */
+  getLlmBaseUrl(provider: LlmProviderType): string {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      const url = localStorage.getItem(this.LLM_BASE_URL_KEY_PREFIX + provider);
+      if (url) {
+        return url;
+      }
+    }
+    return LLM_PROVIDER_DEFAULTS[provider].baseUrl;
+  }
+
+  setLlmBaseUrl(provider: LlmProviderType, url: string): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      if (url) {
+        localStorage.setItem(this.LLM_BASE_URL_KEY_PREFIX + provider, url);
+      } else {
+        localStorage.removeItem(this.LLM_BASE_URL_KEY_PREFIX + provider);
+      }
+    }
+  }
+
+  getLlmModel(provider: LlmProviderType): string {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      const model = localStorage.getItem(this.LLM_MODEL_KEY_PREFIX + provider);
+      if (model) {
+        return model;
+      }
+    }
+    return LLM_PROVIDER_DEFAULTS[provider].model;
+  }
+
+  setLlmModel(provider: LlmProviderType, model: string): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      if (model) {
+        localStorage.setItem(this.LLM_MODEL_KEY_PREFIX + provider, model);
+      } else {
+        localStorage.removeItem(this.LLM_MODEL_KEY_PREFIX + provider);
+      }
+    }
+  }
+
+  /**
+   * Whether the selected summary provider has the key it needs
+   */
+  hasSummaryApiKey(): boolean {
+    const provider = this.getLlmProvider();
+    if (provider === 'gemini') {
+      return this.hasGeminiApiKey();
+    }
+    if (provider === 'openai') {
+      return this.hasOpenAiApiKey();
+    }
+    return true;
+  }
+
+  /**
+   * Full configuration for the selected summary provider
+   */
+  getLlmProviderConfig(): LlmProviderConfig {
+    const type = this.getLlmProvider();
+    let apiKey: string | null = null;
+    if (type === 'gemini') {
+      apiKey = this.getGeminiApiKey();
+    } else if (type === 'openai') {
+      apiKey = this.getOpenAiApiKey();
+    }
+    return {
+      type,
+      apiKey,
+      baseUrl: this.getLlmBaseUrl(type),
+      model: this.getLlmModel(type)
+    };
+  }
+
+  /**
+   * Optional key sent to self-hosted and JSON endpoint transcript providers
+   */
+  getTranscriptServiceApiKey(): string | null {
+    return this.getSecret(this.TRANSCRIPT_SERVICE_API_KEY_STORAGE_KEY);
+  }
+
+  setTranscriptServiceApiKey(key: string): void {
+    this.setSecret(this.TRANSCRIPT_SERVICE_API_KEY_STORAGE_KEY, key);
+  }
+
+  getTranscriptProvider(): TranscriptProviderType {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      const provider = localStorage.getItem(this.TRANSCRIPT_PROVIDER_KEY);
+      if (provider && provider in TRANSCRIPT_PROVIDER_DEFAULTS) {
+        return provider as TranscriptProviderType;
+      }
+    }
+    return 'scrapecreators';
+  }
+
+  setTranscriptProvider(provider: TranscriptProviderType): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      localStorage.setItem(this.TRANSCRIPT_PROVIDER_KEY, provider);
+    }
+  }
+
+  /**
+   * Provider tried when the selected one has no captions or no credits; null when there is none
+   */
+  getTranscriptFallbackProvider(): TranscriptProviderType | null {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      const provider = localStorage.getItem(this.TRANSCRIPT_FALLBACK_PROVIDER_KEY);
+      if (provider && provider in TRANSCRIPT_PROVIDER_DEFAULTS && provider !== this.getTranscriptProvider()) {
+        return provider as TranscriptProviderType;
+      }
+    }
+    return null;
+  }
+
+  setTranscriptFallbackProvider(provider: TranscriptProviderType | null): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      if (provider) {
+        localStorage.setItem(this.TRANSCRIPT_FALLBACK_PROVIDER_KEY, provider);
+      } else {
+        localStorage.removeItem(this.TRANSCRIPT_FALLBACK_PROVIDER_KEY);
+      }
+    }
+  }
+
+  /**
+   * Endpoint for a transcript provider, falling back to its default
+   */
+  getTranscriptBaseUrl(provider: TranscriptProviderType): string {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      const url = localStorage.getItem(this.TRANSCRIPT_BASE_URL_KEY_PREFIX + provider);
+      if (url) {
+        return url;
+      }
+    }
+    return TRANSCRIPT_PROVIDER_DEFAULTS[provider].baseUrl;
+  }
+
+  setTranscriptBaseUrl(provider: TranscriptProviderType, url: string): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      if (url) {
+        localStorage.setItem(this.TRANSCRIPT_BASE_URL_KEY_PREFIX + provider, url);
+      } else {
+        localStorage.removeItem(this.TRANSCRIPT_BASE_URL_KEY_PREFIX + provider);
+      }
+    }
+  }
+
+  getTranscriptFieldMapping(): TranscriptFieldMapping {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      try {
+        const mapping = JSON.parse(localStorage.getItem(this.TRANSCRIPT_FIELD_MAPPING_KEY) || 'null');
+        if (mapping && typeof mapping === 'object') {
+          return { ...DEFAULT_TRANSCRIPT_FIELD_MAPPING, ...mapping };
+        }
+      } catch {
+        // Fall through to the default mapping
+      }
+    }
+    return { ...DEFAULT_TRANSCRIPT_FIELD_MAPPING };
+  }
+
+  setTranscriptFieldMapping(mapping: TranscriptFieldMapping): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      localStorage.setItem(this.TRANSCRIPT_FIELD_MAPPING_KEY, JSON.stringify(mapping));
+    }
+  }
+
+  /**
+   * Whether the selected transcript provider has the key it needs
+   */
+  hasTranscriptProviderKey(): boolean {
+    return !TRANSCRIPT_PROVIDER_DEFAULTS[this.getTranscriptProvider()].requiresApiKey || this.hasApiKey();
+  }
+
+  /**
+   * Full configuration for a transcript provider
+   */
+  getTranscriptProviderConfig(type: TranscriptProviderType): TranscriptProviderConfig {
+    return {
+      type,
+      apiKey: type === 'scrapecreators' ? this.getApiKey() : this.getTranscriptServiceApiKey(),
+      baseUrl: this.getTranscriptBaseUrl(type),
+      fieldMapping: this.getTranscriptFieldMapping()
+    };
+  }
+
+  /**
+   * How long fetched transcripts are reused before spending a credit again; 0 disables the cache
+   */
+  getTranscriptCacheTtlHours(): number {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      const ttl = localStorage.getItem(this.TRANSCRIPT_CACHE_TTL_KEY);
+      if (ttl !== null && !isNaN(parseFloat(ttl))) {
+        return Math.max(0, parseFloat(ttl));
+      }
+    }
+    return this.DEFAULT_TRANSCRIPT_CACHE_TTL_HOURS;
+  }
+
+  setTranscriptCacheTtlHours(hours: number): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      localStorage.setItem(this.TRANSCRIPT_CACHE_TTL_KEY, Math.max(0, hours).toString());
+    }
+  }
+
+  /**
+   * Language code summaries are written in; empty means the transcript's own language
+   */
+  getSummaryLanguage(): string {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      return localStorage.getItem(this.SUMMARY_LANGUAGE_KEY) || '';
+    }
+    return '';
+  }
+
+  setSummaryLanguage(code: string): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      if (code) {
+        localStorage.setItem(this.SUMMARY_LANGUAGE_KEY, code);
+      } else {
+        localStorage.removeItem(this.SUMMARY_LANGUAGE_KEY);
+      }
+    }
+  }
+
+  /**
+   * Caption language requested from the transcript API; empty lets the API pick
+   */
+  getTranscriptLanguage(): string {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      return localStorage.getItem(this.TRANSCRIPT_LANGUAGE_KEY) || '';
+    }
+    return '';
+  }
+
+  setTranscriptLanguage(code: string): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      if (code) {
+        localStorage.setItem(this.TRANSCRIPT_LANGUAGE_KEY, code);
+      } else {
+        localStorage.removeItem(this.TRANSCRIPT_LANGUAGE_KEY);
+      }
+    }
+  }
+
+  /**
+   * Together.ai voice used for summary audio
+   */
+  getTtsVoice(): string {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      return localStorage.getItem(this.TTS_VOICE_KEY) || DEFAULT_TTS_VOICE;
+    }
+    return DEFAULT_TTS_VOICE;
+  }
+
+  setTtsVoice(voice: string): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      localStorage.setItem(this.TTS_VOICE_KEY, voice);
+    }
+  }
+
+  /**
+   * Playback speed for summary audio, between 0.5 and 2
+   */
+  getTtsPlaybackRate(): number {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      const rate = parseFloat(localStorage.getItem(this.TTS_PLAYBACK_RATE_KEY) || '');
+      if (!isNaN(rate)) {
+        return Math.min(2, Math.max(0.5, rate));
+      }
+    }
+    return 1;
+  }
+
+  setTtsPlaybackRate(rate: number): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      localStorage.setItem(this.TTS_PLAYBACK_RATE_KEY, Math.min(2, Math.max(0.5, rate)).toString());
+    }
+  }
+
+  getProfiles(): SettingsProfile[] {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      try {
+        const profiles = JSON.parse(localStorage.getItem(this.PROFILES_KEY) || '[]');
+        return Array.isArray(profiles) ? profiles : [];
+      } catch {
+        return [];
+      }
+    }
+    return [];
+  }
+
+  setProfiles(profiles: SettingsProfile[]): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      localStorage.setItem(this.PROFILES_KEY, JSON.stringify(profiles));
+    }
+  }
+
+  getActiveProfileId(): string | null {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      return localStorage.getItem(this.ACTIVE_PROFILE_KEY);
+    }
+    return null;
+  }
+
+  setActiveProfileId(id: string | null): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      if (id) {
+        localStorage.setItem(this.ACTIVE_PROFILE_KEY, id);
+      } else {
+        localStorage.removeItem(this.ACTIVE_PROFILE_KEY);
+      }
+    }
+  }
+
+  /**
+   * API keys saved with a profile; kept in the vault like the active keys when it is enabled
+   */
+  getProfileKeys(profileId: string): ProfileKeys | null {
+    const keys = this.getSecret(this.PROFILE_KEYS_PREFIX + profileId);
+    if (!keys) {
+      return null;
+    }
+    try {
+      return JSON.parse(keys);
+    } catch {
+      return null;
+    }
+  }
+
+  setProfileKeys(profileId: string, keys: ProfileKeys): void {
+    this.setSecret(this.PROFILE_KEYS_PREFIX + profileId, JSON.stringify(keys));
+  }
+
+  removeProfileKeys(profileId: string): void {
+    this.removeSecret(this.PROFILE_KEYS_PREFIX + profileId);
+  }
+
+  get vaultState(): VaultState {
+    return this.vaultStateSubject.value;
+  }
+
+  isVaultEnabled(): boolean {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      return localStorage.getItem(this.VAULT_KEY) !== null;
+    }
+    return false;
+  }
+
+  /**
+   * Encrypts the API keys with a passphrase, moving any plain text keys into the vault
+   */
+  async enableVault(passphrase: string): Promise<void> {
+    if (this.isVaultEnabled()) {
+      throw new Error('The key vault is already enabled.');
+    }
+
+    const secretKeys = [
+      ...this.SECRET_KEYS,
+      ...Object.keys(localStorage).filter(key => key.startsWith(this.PROFILE_KEYS_PREFIX))
+    ];
+    const secrets: VaultSecrets = {};
+    for (const key of secretKeys) {
+      const value = localStorage.getItem(key);
+      if (value !== null) {
+        secrets[key] = value;
+      }
+    }
+
+    this.vaultSalt = createVaultSalt();
+    this.vaultKey = await deriveVaultKey(passphrase, this.vaultSalt);
+    this.vaultSecrets = secrets;
+    await this.writeVault();
+    secretKeys.forEach(key => localStorage.removeItem(key));
+    this.setVaultState('unlocked');
+  }
+
+  /**
+   * Decrypts the vault for this session
+   */
+  async unlockVault(passphrase: string): Promise<void> {
+    const { secrets, key, salt } = await this.openVault(passphrase);
+    this.vaultSecrets = secrets;
+    this.vaultKey = key;
+    this.vaultSalt = salt;
+    this.setVaultState('unlocked');
+  }
+
+  /**
+   * Forgets the decrypted keys; they stay encrypted in local storage
+   */
+  lockVault(): void {
+    if (!this.isVaultEnabled()) {
+      return;
+    }
+    this.vaultKey = null;
+    this.vaultSalt = null;
+    this.vaultSecrets = null;
+    this.setVaultState('locked');
+  }
+
+  /**
+   * Re-encrypts the vault under a new passphrase with a fresh salt
+   */
+  async changeVaultPassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    // Key saves already queued are written under the current passphrase first
+    await this.vaultWrite;
+    if (this.vaultSecrets) {
+      // Only checks the passphrase; the keys in memory may be newer than the stored vault
+      await this.openVault(currentPassphrase);
+    } else {
+      await this.unlockVault(currentPassphrase);
+    }
+
+    const salt = createVaultSalt();
+    const key = await deriveVaultKey(newPassphrase, salt);
+    // Queued like a key save, so no other write runs between switching the key and writing with it
+    const change = this.vaultWrite.then(async () => {
+      this.vaultSalt = salt;
+      this.vaultKey = key;
+      await this.writeVault();
+    });
+    this.vaultWrite = change.catch(err => console.error('Failed to save the key vault:', err));
+    await change;
+  }
+
+  /**
+   * Decrypts the vault and goes back to storing keys in plain text
+   */
+  async disableVault(passphrase: string): Promise<void> {
+    await this.unlockVault(passphrase);
+    await this.vaultWrite;
+    for (const [key, value] of Object.entries(this.vaultSecrets || {})) {
+      localStorage.setItem(key, value);
+    }
+    localStorage.removeItem(this.VAULT_KEY);
+    this.vaultKey = null;
+    this.vaultSalt = null;
+    this.vaultSecrets = null;
+    this.setVaultState('disabled');
+  }
+
+  /**
+   * Minutes without user activity before an unlocked vault locks again; 0 never locks
+   */
+  getVaultIdleMinutes(): number {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      const minutes = localStorage.getItem(this.VAULT_IDLE_MINUTES_KEY);
+      if (minutes !== null && !isNaN(parseFloat(minutes))) {
+        return Math.max(0, parseFloat(minutes));
+      }
+    }
+    return this.DEFAULT_VAULT_IDLE_MINUTES;
+  }
+
+  setVaultIdleMinutes(minutes: number): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      localStorage.setItem(this.VAULT_IDLE_MINUTES_KEY, Math.max(0, minutes).toString());
+    }
+    if (this.vaultState === 'unlocked') {
+      this.resetIdleTimer();
+    }
+  }
+
+  /**
+   * Reads an API key from the unlocked vault, or from plain local storage when the vault is off
+   */
+  private getSecret(key: string): string | null {
+    if (this.isVaultEnabled()) {
+      return this.vaultSecrets?.[key] ?? null;
+    }
+    if (typeof window !== 'undefined' && window.localStorage) {
+      return localStorage.getItem(key);
+    }
+    return null;
+  }
+
+  private setSecret(key: string, value: string): void {
+    this.updateSecret(key, value);
+  }
+
+  private removeSecret(key: string): void {
+    this.updateSecret(key, null);
+  }
+
+  /**
+   * Throws while the vault is locked, since the change could not be encrypted and would be lost
+   */
+  private updateSecret(key: string, value: string | null): void {
+    if (this.isVaultEnabled()) {
+      if (!this.vaultSecrets) {
+        throw new Error('Unlock your API keys before changing them.');
+      }
+      if (value === null) {
+        delete this.vaultSecrets[key];
+      } else {
+        this.vaultSecrets[key] = value;
+      }
+      // Serialize writes so a slow encryption never overwrites a newer one
+      this.vaultWrite = this.vaultWrite
+        .then(() => this.writeVault())
+        .catch(err => console.error('Failed to save the key vault:', err));
+      return;
+    }
+    if (typeof window !== 'undefined' && window.localStorage) {
+      if (value === null) {
+        localStorage.removeItem(key);
+      } else {
+        localStorage.setItem(key, value);
+      }
+    }
+  }
+
+  /**
+   * Decrypts the stored vault, throwing when the passphrase is wrong
+   */
+  private async openVault(passphrase: string): Promise<{ secrets: VaultSecrets; key: CryptoKey; salt: Uint8Array }> {
+    const vault = this.readVault();
+    if (!vault) {
+      throw new Error('The key vault is not enabled.');
+    }
+
+    const salt = fromBase64(vault.salt);
+    const key = await deriveVaultKey(passphrase, salt, vault.iterations);
+    return { secrets: await decryptVault(vault, key), key, salt };
+  }
+
+  private readVault(): EncryptedVault | null {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      try {
+        return JSON.parse(localStorage.getItem(this.VAULT_KEY) || 'null');
+      } catch {
+        return null;
+      }
+    }
+    return null;
+  }
+
+  private async writeVault(): Promise<void> {
+    if (!this.vaultKey || !this.vaultSalt || !this.vaultSecrets) {
+      return;
+    }
+    const vault = await encryptVault(this.vaultSecrets, this.vaultKey, this.vaultSalt);
+    localStorage.setItem(this.VAULT_KEY, JSON.stringify(vault));
+  }
+
+  private setVaultState(state: VaultState): void {
+    if (state === 'unlocked') {
+      this.IDLE_EVENTS.forEach(event => window.addEventListener(event, this.resetIdleTimer, { passive: true }));
+      this.resetIdleTimer();
+    } else {
+      this.IDLE_EVENTS.forEach(event => window.removeEventListener(event, this.resetIdleTimer));
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    this.vaultStateSubject.next(state);
+  }
+
+  private resetIdleTimer = (): void => {
+    clearTimeout(this.idleTimer);
+    const minutes = this.getVaultIdleMinutes();
+    this.idleTimer = minutes > 0 ? setTimeout(() => this.lockVault(), minutes * 60 * 1000) : null;
+  };
+}
@@ -0,0 +1,46 @@
+import { HttpClient } from '@angular/common/http';
+import { TranscriptItem } from './api';
+import { Export } from './export';
+import { Storage } from './storage';
+import { Summary } from './summary';
+import { Templates } from './templates';
+import { createTranscriptItem } from './transcript-file';
+
+const transcript: TranscriptItem[] = [
+  createTranscriptItem('Hello', 0, 5000),
+  createTranscriptItem('Welcome back', 5000, 14000),
+  createTranscriptItem('First topic', 14000, 40000),
+  createTranscriptItem('Second topic', 40000, 90000),
+  createTranscriptItem('Thanks for watching', 90000, 95000)
+];
+
+describe('Summary.resolveChapters', () => {
+  const summary = new Summary({} as HttpClient, {} as Storage, {} as Templates);
+
+  it('should measure the gap to the second chapter from 0:00', () => {
+    const chapters = summary.resolveChapters([
+      { title: 'Intro', startTime: '0:05' },
+      { title: 'First topic', startTime: '0:14' },
+      { title: 'Second topic', startTime: '0:40' }
+    ], transcript);
+
+    expect(chapters.map(chapter => [chapter.title, chapter.startTimeText])).toEqual([
+      ['Intro', '0:00'],
+      ['First topic', '0:14'],
+      ['Second topic', '0:40']
+    ]);
+  });
+
+  it('should drop chapters ending less than 10 seconds before the end of the video', () => {
+    const chapters = summary.resolveChapters([
+      { title: 'Intro', startTime: '0:00' },
+      { title: 'First topic', startTime: '0:14' },
+      { title: 'Second topic', startTime: '0:40' },
+      { title: 'Outro', startTime: '1:30' }
+    ], transcript);
+
+    expect(chapters.map(chapter => chapter.title)).toEqual(['Intro', 'First topic', 'Second topic']);
+    expect(chapters[2].endMs).toBe(95000);
+    expect(new Export().checkYouTubeChapters(chapters)).toEqual([]);
+  });
+});
@@ -1,333 +1,716 @@
 import { Injectable } from '@angular/core';
-import { HttpClient, HttpHeaders } from '@angular/common/http';
-import { Observable, Subject, firstValueFrom } from 'rxjs';
+import { HttpClient } from '@angular/common/http';
+import { Observable, Subscriber } from 'rxjs';
 import { TranscriptItem } from './api';
 import { Storage } from './storage';
+import { GenerateOptions, JsonSchema, LlmProvider, createLlmProvider } from './llm-provider';
+import { Templates } from './templates';
+import { parsePartialJson } from './partial-json';
+import { getLanguageName } from './languages';
+import { isApiError, missingKeyError } from './errors';
+
+export interface TranslationProgress {
+  completed: number;
+  total: number;
+}
 
-export interface GeminiResponse {
-  candidates?: Array<{
-    content?: {
-      parts?: Array<{
-        text?: string;
-      }>;
-    };
-  }>;
+export interface SummaryProgress {
+  stage: 'map' | 'reduce';
+  completed: number;
+  total: number;
+}
+
+export interface SummaryChapter {
+  title: string;
+  startTime: string; // Timestamp of the chapter's first transcript line, e.g. "12:34"
+}
+
+/**
+ * A chapter whose start time has been matched to a real transcript line
+ */
+export interface TranscriptChapter {
+  title: string;
+  startMs: number;
+  endMs: number;
+  startTimeText: string; // M:SS or H:MM:SS, as used in YouTube descriptions
+  index: number; // Transcript line the chapter starts at
+}
+
+export type SummaryEntityType = 'person' | 'organization' | 'place' | 'product' | 'other';
+
+export interface SummaryEntity {
+  name: string;
+  type: SummaryEntityType;
+}
+
+/**
+ * Structured summary returned by the model
+ */
+export interface SummaryResult {
+  headline: string;
+  summary: string;
+  keyPoints: string[];
+  chapters: SummaryChapter[];
+  entities: SummaryEntity[];
+}
+
+export interface SummaryStreamUpdate extends SummaryResult {
+  progress?: SummaryProgress;
+}
+
+const SUMMARY_ENTITY_TYPES: SummaryEntityType[] = ['person', 'organization', 'place', 'product', 'other'];
+
+export const SUMMARY_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    headline: { type: 'string', description: 'Concise headline, maximum 80 characters' },
+    summary: { type: 'string', description: 'The summary, formatted as instructed' },
+    keyPoints: { type: 'array', items: { type: 'string' } },
+    chapters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          startTime: { type: 'string', description: 'Timestamp of the first transcript line of the chapter, exactly as written in the transcript' }
+        },
+        required: ['title', 'startTime']
+      }
+    },
+    entities: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          type: { type: 'string', enum: SUMMARY_ENTITY_TYPES }
+        },
+        required: ['name', 'type']
+      }
+    }
+  },
+  required: ['headline', 'summary', 'keyPoints', 'chapters', 'entities']
+};
+
+export interface TranscriptCitation {
+  startTimeText: string;
+  startMs: number;
+  index: number; // Position of the cited line in the transcript
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  citations?: TranscriptCitation[];
+}
+
+export interface TranscriptChunk {
+  items: TranscriptItem[];
+  startMs: number;
+  endMs: number;
 }
 
 @Injectable({
   providedIn: 'root',
 })
 export class Summary {
-  private readonly GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-lite:generateContent';
+  // Rough token estimates (~4 characters per token); transcripts above the
+  // single-pass limit are summarized chunk by chunk and then merged
+  private readonly SINGLE_PASS_TOKEN_LIMIT = 24000;
+  private readonly CHUNK_TOKEN_BUDGET = 12000;
+  // YouTube ignores chapter lists with chapters shorter than this
+  private readonly MIN_CHAPTER_MS = 10000;
+  // Lines are translated in batches small enough for the model's output limit
+  private readonly TRANSLATION_BATCH_TOKENS = 2000;
+  // Appended to every template so the response can be parsed regardless of how the template is written
+  private readonly RESPONSE_FORMAT = `
+
+Respond with a single JSON object with these fields:
+- "headline": the headline
+- "summary": the summary, formatted as described above (use \\n for line breaks)
+- "keyPoints": the 3 to 7 most important points, one short sentence each
+- "chapters": the main sections of the video in order, each with a "title" and the "startTime" of its first transcript line exactly as written in the transcript (e.g. "12:34")
+- "entities": people, organizations, places and products mentioned, each with a "name" and a "type" (${SUMMARY_ENTITY_TYPES.join(', ')})`;
+  private readonly SUMMARY_OPTIONS: GenerateOptions = { responseSchema: SUMMARY_RESPONSE_SCHEMA };
+  private readonly TRANSLATION_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+      lines: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            index: { type: 'integer' },
+            text: { type: 'string' }
+          },
+          required: ['index', 'text']
+        }
+      }
+    },
+    required: ['lines']
+  };
 
   constructor(
     private http: HttpClient,
-    private storage: Storage
+    private storage: Storage,
+    private templates: Templates
   ) {}
 
   /**
-   * Generates a summary from transcript using Gemini AI with streaming support
+   * Returns the LLM provider currently selected in settings
+   */
+  getProvider(): LlmProvider {
+    return createLlmProvider(this.http, this.storage.getLlmProviderConfig());
+  }
+
+  /**
+   * Generates a summary from transcript using the selected LLM provider.
+   * Aborting the signal cancels the request and rejects with an AbortError.
    */
-  async generateSummary(transcript: TranscriptItem[], lengthPercentage: number, style: string = 'essay'): Promise<{ summary: string; headline: string }> {
+  async generateSummary(transcript: TranscriptItem[], lengthPercentage: number, style: string = 'essay', signal?: AbortSignal): Promise<SummaryResult> {
     if (!transcript || transcript.length === 0) {
-      return { summary: 'No transcript available.', headline: '' };
+      return this.createResult('No transcript available.');
     }
 
-    const geminiApiKey = this.storage.getGeminiApiKey();
-    if (!geminiApiKey) {
-      throw new Error('Gemini API key not found. Please set your Gemini API key in settings.');
+    const options: GenerateOptions = { ...this.SUMMARY_OPTIONS, signal };
+    const provider = this.getProvider();
+    const chunks = this.chunkTranscript(transcript);
+    if (chunks.length > 1) {
+      const partials = await this.summarizeChunks(provider, chunks, lengthPercentage, undefined, signal);
+      const mergePrompt = this.buildMergePrompt(partials, chunks, transcript, lengthPercentage, style);
+      return this.parseSummaryResponse(await provider.generate(mergePrompt, options));
+    }
+
+    const prompt = this.buildPrompt(transcript, lengthPercentage, style);
+    const fullText = await provider.generate(prompt, options);
+    return this.parseSummaryResponse(fullText);
+  }
+
+  /**
+   * Splits a transcript into chunks that fit the token budget, breaking only between lines
+   * so every chunk keeps an exact startMs/endMs range
+   */
+  chunkTranscript(transcript: TranscriptItem[], tokenBudget: number = this.CHUNK_TOKEN_BUDGET): TranscriptChunk[] {
+    const totalTokens = transcript.reduce((sum, item) => sum + this.estimateTokens(item), 0);
+    if (totalTokens <= this.SINGLE_PASS_TOKEN_LIMIT) {
+      return [this.createChunk(transcript)];
+    }
+
+    const chunks: TranscriptChunk[] = [];
+    let current: TranscriptItem[] = [];
+    let currentTokens = 0;
+
+    for (const item of transcript) {
+      const tokens = this.estimateTokens(item);
+      if (current.length > 0 && currentTokens + tokens > tokenBudget) {
+        chunks.push(this.createChunk(current));
+        current = [];
+        currentTokens = 0;
+      }
+      current.push(item);
+      currentTokens += tokens;
+    }
+
+    if (current.length > 0) {
+      chunks.push(this.createChunk(current));
+    }
+
+    return chunks;
+  }
+
+  private estimateTokens(item: TranscriptItem): number {
+    // Timestamp prefix plus text, ~4 characters per token
+    return Math.ceil((item.startTimeText.length + item.text.length + 4) / 4);
+  }
+
+  private createChunk(items: TranscriptItem[]): TranscriptChunk {
+    const first = items[0];
+    const last = items[items.length - 1];
+    return {
+      items,
+      startMs: parseInt(first?.startMs, 10) || 0,
+      endMs: parseInt(last?.endMs, 10) || parseInt(last?.startMs, 10) || 0
+    };
+  }
+
+  /**
+   * Formats milliseconds as H:MM:SS or M:SS
+   */
+  private formatTimestamp(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const mins = Math.floor((totalSeconds % 3600) / 60);
+    const secs = totalSeconds % 60;
+    if (hours > 0) {
+      return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
     }
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  }
+
+  private formatChunkRange(chunk: TranscriptChunk): string {
+    return `${this.formatTimestamp(chunk.startMs)}-${this.formatTimestamp(chunk.endMs)}`;
+  }
 
-    // Combine all transcript text with timestamps for timestamp style
-    const fullText = transcript.map(item => item.text).join(' ');
-    const transcriptWithTimestamps = transcript.map(item => `[${item.startTimeText}] ${item.text}`).join('\n');
-
-    // Style instructions
-    let styleInstruction = '';
-    if (style === 'bullets') {
-      styleInstruction = 'Format the summary as bullet points, with each main point on a new line starting with •';
-    } else if (style === 'timestamp') {
-      styleInstruction = 'Format the summary with timestamps from the transcript. Include the timestamp in [HH:MM] format before each key point.';
-    } else {
-      styleInstruction = 'Format the summary as a cohesive essay with paragraphs.';
+  /**
+   * Map step: summarizes each chunk in order, reporting progress after each one
+   */
+  private async summarizeChunks(
+    provider: LlmProvider,
+    chunks: TranscriptChunk[],
+    lengthPercentage: number,
+    onProgress?: (progress: SummaryProgress) => void,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    const partials: string[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+      onProgress?.({ stage: 'map', completed: i, total: chunks.length });
+      partials.push(await provider.generate(this.buildChunkPrompt(chunks[i], i, chunks.length, lengthPercentage), { signal }));
     }
+    onProgress?.({ stage: 'map', completed: chunks.length, total: chunks.length });
+    return partials;
+  }
 
-    // Create prompt with length requirement, style, headline, and neutral instructions
-    const transcriptText = style === 'timestamp' ? transcriptWithTimestamps : fullText;
-    const prompt = `You are a neutral transcription summarizer. Your task is to create an objective summary of the following YouTube video transcript.
+  private buildChunkPrompt(chunk: TranscriptChunk, index: number, total: number, lengthPercentage: number): string {
+    // Partial summaries are kept a bit longer than the target so the merge step has material to work with
+    const partialPercentage = Math.min(100, Math.round(lengthPercentage * 1.5));
+    const transcriptWithTimestamps = chunk.items.map(item => `[${item.startTimeText}] ${item.text}`).join('\n');
+
+    return `You are a neutral transcription summarizer. The following is part ${index + 1} of ${total} of a long YouTube video transcript, covering ${this.formatChunkRange(chunk)}.
 
 CRITICAL INSTRUCTIONS:
-- Provide ONLY a factual, neutral summary of what was said in the transcript
+- Provide ONLY a factual, neutral summary of what was said in this part of the transcript
 - Do NOT add your own opinions, perspectives, analysis, or conclusions
-- Do NOT interpret, judge, or evaluate the content
-- Simply summarize what was actually said, without commentary
-- Maintain complete objectivity and neutrality
+- Summarize only this part; do not speculate about the rest of the video
 
 REQUIREMENTS:
-1. First, generate a concise headline (maximum 80 characters) that summarizes the main topic
-2. Then provide a summary that is approximately ${lengthPercentage}% of the original transcript length
-3. ${styleInstruction}
+1. Write a summary that is approximately ${partialPercentage}% of the length of this part
+2. Put the transcript timestamp in [MM:SS] or [H:MM:SS] format before each key point
+3. Do NOT add a headline
 
-Format your response EXACTLY as follows:
-HEADLINE: [Your headline here]
+Transcript part:
+${transcriptWithTimestamps}`;
+  }
 
-SUMMARY:
-[Your summary here]
+  /**
+   * Reduce step: renders the selected template with the partial summaries in place of the transcript
+   */
+  private buildMergePrompt(
+    partials: string[],
+    chunks: TranscriptChunk[],
+    transcript: TranscriptItem[],
+    lengthPercentage: number,
+    style: string
+  ): string {
+    const totalWords = transcript.reduce((sum, item) => sum + item.text.split(/\s+/).filter(Boolean).length, 0);
+    const targetWords = Math.max(50, Math.round(totalWords * lengthPercentage / 100));
+    const parts = partials
+      .map((partial, i) => `PART ${i + 1} (${this.formatChunkRange(chunks[i])}):\n${partial.trim()}`)
+      .join('\n\n');
+
+    const prompt = this.templates.render(this.templates.get(style), {
+      transcript: parts,
+      timestampedTranscript: parts,
+      lengthPercentage,
+      language: this.getSummaryLanguageName()
+    });
 
-Transcript:
-${transcriptText}`;
+    return `NOTE: This video is too long to include in full. Its transcript has been summarized in ${partials.length} consecutive parts, given below in place of the transcript. Merge them into one summary of the whole video of about ${targetWords} words, removing repetition between parts and keeping the chronological order.
+
+${prompt}${this.RESPONSE_FORMAT}`;
+  }
 
-    const headers = new HttpHeaders({
-      'Content-Type': 'application/json',
-      'X-goog-api-key': geminiApiKey
+  private getSummaryLanguageName(): string {
+    const code = this.storage.getSummaryLanguage();
+    return code ? getLanguageName(code) : 'the same language as the transcript';
+  }
+
+  /**
+   * Builds the summarization prompt from the selected template
+   */
+  private buildPrompt(transcript: TranscriptItem[], lengthPercentage: number, style: string): string {
+    const prompt = this.templates.render(this.templates.get(style), {
+      transcript: transcript.map(item => item.text).join(' '),
+      timestampedTranscript: transcript.map(item => `[${item.startTimeText}] ${item.text}`).join('\n'),
+      lengthPercentage,
+      language: this.getSummaryLanguageName()
     });
+    return `${prompt}${this.RESPONSE_FORMAT}`;
+  }
 
-    const body = {
-      contents: [
-        {
-          parts: [
-            {
-              text: prompt
-            }
-          ]
-        }
-      ]
+  /**
+   * Parses the model's JSON response into a SummaryResult. Works on partial JSON while
+   * streaming; fields that have not arrived yet are empty.
+   */
+  private parseSummaryResponse(text: string): SummaryResult {
+    const parsed = parsePartialJson(text);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      // Nothing parseable yet, or the model ignored the schema and answered in plain text
+      return this.createResult(/^\s*(```|[{[])/.test(text) ? '' : text.trim());
+    }
+
+    const data = parsed as Record<string, any>;
+    const asArray = (value: unknown): any[] => Array.isArray(value) ? value : [];
+    const asString = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+    return {
+      headline: asString(data['headline']),
+      summary: asString(data['summary']),
+      keyPoints: asArray(data['keyPoints']).map(asString).filter(Boolean),
+      chapters: asArray(data['chapters'])
+        .map(chapter => ({ title: asString(chapter?.title), startTime: asString(chapter?.startTime) }))
+        .filter(chapter => chapter.title),
+      entities: asArray(data['entities'])
+        .map(entity => ({
+          name: asString(entity?.name),
+          type: SUMMARY_ENTITY_TYPES.includes(entity?.type) ? entity.type : 'other' as SummaryEntityType
+        }))
+        .filter(entity => entity.name)
     };
+  }
 
-    try {
-      const response = await firstValueFrom(this.http.post<GeminiResponse>(this.GEMINI_API_URL, body, { headers }));
-      
-      if (response?.candidates?.[0]?.content?.parts?.[0]?.text) {
-        const fullText = response.candidates[0].content.parts[0].text;
-        return this.parseSummaryResponse(fullText);
-      }
-      
-      throw new Error('Invalid response from Gemini API');
-    } catch (error: any) {
-      console.error('Error generating summary with Gemini:', error);
-      throw new Error(error?.error?.error?.message || 'Failed to generate summary with Gemini AI');
-    }
+  private createResult(summary: string = ''): SummaryResult {
+    return { headline: '', summary, keyPoints: [], chapters: [], entities: [] };
   }
 
   /**
-   * Parses the summary response to extract headline and summary
+   * Generates a summary with streaming support using the selected LLM provider.
+   * Long transcripts emit progress while their chunks are summarized, then stream the merged summary.
+   * Unsubscribing cancels every request still in flight.
    */
-  private parseSummaryResponse(text: string): { summary: string; headline: string } {
-    const headlineMatch = text.match(/HEADLINE:\s*(.+?)(?:\n|$)/i);
-    const headline = headlineMatch ? headlineMatch[1].trim() : '';
-    
-    const summaryMatch = text.match(/SUMMARY:\s*([\s\S]+)/i);
-    const summary = summaryMatch ? summaryMatch[1].trim() : text.trim();
-    
-    return { summary, headline };
+  generateSummaryStream(transcript: TranscriptItem[], lengthPercentage: number, style: string = 'essay'): Observable<SummaryStreamUpdate> {
+    return new Observable<SummaryStreamUpdate>(subscriber => {
+      if (!transcript || transcript.length === 0) {
+        subscriber.next(this.createResult('No transcript available.'));
+        subscriber.complete();
+        return;
+      }
+
+      if (!this.storage.hasSummaryApiKey()) {
+        subscriber.error(missingKeyError(this.getProvider().label));
+        return;
+      }
+
+      const controller = new AbortController();
+      const options: GenerateOptions = { ...this.SUMMARY_OPTIONS, signal: controller.signal };
+      const provider = this.getProvider();
+      const chunks = this.chunkTranscript(transcript);
+      if (chunks.length > 1) {
+        this.streamMapReduce(provider, subscriber, chunks, transcript, lengthPercentage, style, options);
+        return () => controller.abort();
+      }
+
+      const prompt = this.buildPrompt(transcript, lengthPercentage, style);
+      let fullText = '';
+
+      provider.stream(prompt, options).subscribe({
+        next: (text) => {
+          fullText += text;
+          // Parse and emit the accumulated result
+          subscriber.next(this.parseSummaryResponse(fullText));
+        },
+        complete: () => {
+          subscriber.complete();
+        },
+        error: (error) => {
+          console.error('Streaming error:', error);
+          // Request errors were already retried and would fail the same way without streaming,
+          // and text already shown is not thrown away for a second request
+          if ((isApiError(error) && error.kind !== 'unknown') || fullText) {
+            subscriber.error(error);
+            return;
+          }
+          // Fallback to non-streaming
+          this.generateSummary(transcript, lengthPercentage, style, controller.signal)
+            .then(result => {
+              subscriber.next(result);
+              subscriber.complete();
+            })
+            .catch(err => {
+              subscriber.error(err);
+            });
+        }
+      });
+
+      return () => controller.abort();
+    });
   }
 
   /**
-   * Generates a summary with streaming support using Gemini API
+   * Runs the map step, then streams the merge step to the subscriber
    */
-  generateSummaryStream(transcript: TranscriptItem[], lengthPercentage: number, style: string = 'essay'): Observable<{ summary: string; headline: string }> {
-    const subject = new Subject<{ summary: string; headline: string }>();
-    
-    if (!transcript || transcript.length === 0) {
-      subject.next({ summary: 'No transcript available.', headline: '' });
-      subject.complete();
-      return subject.asObservable();
+  private async streamMapReduce(
+    provider: LlmProvider,
+    subscriber: Subscriber<SummaryStreamUpdate>,
+    chunks: TranscriptChunk[],
+    transcript: TranscriptItem[],
+    lengthPercentage: number,
+    style: string,
+    options: GenerateOptions
+  ): Promise<void> {
+    let partials: string[];
+    try {
+      partials = await this.summarizeChunks(provider, chunks, lengthPercentage, progress => {
+        subscriber.next({ ...this.createResult(), progress });
+      }, options.signal);
+    } catch (error) {
+      subscriber.error(error);
+      return;
     }
 
-    const geminiApiKey = this.storage.getGeminiApiKey();
-    if (!geminiApiKey) {
-      subject.error(new Error('Gemini API key not found. Please set your Gemini API key in settings.'));
-      return subject.asObservable();
+    const reduceProgress: SummaryProgress = { stage: 'reduce', completed: 0, total: 1 };
+    subscriber.next({ ...this.createResult(), progress: reduceProgress });
+
+    const mergePrompt = this.buildMergePrompt(partials, chunks, transcript, lengthPercentage, style);
+    let fullText = '';
+
+    provider.stream(mergePrompt, options).subscribe({
+      next: (text) => {
+        fullText += text;
+        subscriber.next({ ...this.parseSummaryResponse(fullText), progress: reduceProgress });
+      },
+      complete: () => {
+        subscriber.complete();
+      },
+      error: (error) => {
+        console.error('Streaming error while merging summaries:', error);
+        if ((isApiError(error) && error.kind !== 'unknown') || fullText) {
+          subscriber.error(error);
+          return;
+        }
+        // Fallback to a non-streaming merge, reusing the partial summaries
+        provider.generate(mergePrompt, options)
+          .then(text => {
+            subscriber.next(this.parseSummaryResponse(text));
+            subscriber.complete();
+          })
+          .catch(err => {
+            subscriber.error(err);
+          });
+      }
+    });
+  }
+
+  /**
+   * Translates every transcript line into the target language. The result is parallel to the
+   * input: same length and timings, only the text changes. Lines the model skips keep their original text.
+   * Aborting the signal cancels the batch in flight and rejects with an AbortError.
+   */
+  async translateTranscript(
+    transcript: TranscriptItem[],
+    languageCode: string,
+    onProgress?: (progress: TranslationProgress) => void,
+    signal?: AbortSignal
+  ): Promise<TranscriptItem[]> {
+    const provider = this.getProvider();
+    const language = getLanguageName(languageCode);
+    const translated = transcript.map(item => item.text);
+
+    const batches: number[][] = [];
+    let current: number[] = [];
+    let currentTokens = 0;
+    transcript.forEach((item, index) => {
+      const tokens = this.estimateTokens(item);
+      if (current.length > 0 && currentTokens + tokens > this.TRANSLATION_BATCH_TOKENS) {
+        batches.push(current);
+        current = [];
+        currentTokens = 0;
+      }
+      current.push(index);
+      currentTokens += tokens;
+    });
+    if (current.length > 0) {
+      batches.push(current);
     }
 
-    // Combine all transcript text with timestamps for timestamp style
-    const fullText = transcript.map(item => item.text).join(' ');
-    const transcriptWithTimestamps = transcript.map(item => `[${item.startTimeText}] ${item.text}`).join('\n');
-
-    // Style instructions
-    let styleInstruction = '';
-    if (style === 'bullets') {
-      styleInstruction = 'Format the summary as bullet points, with each main point on a new line starting with •';
-    } else if (style === 'timestamp') {
-      styleInstruction = 'Format the summary with timestamps from the transcript. Include the timestamp in [HH:MM] format before each key point.';
-    } else {
-      styleInstruction = 'Format the summary as a cohesive essay with paragraphs.';
+    for (let b = 0; b < batches.length; b++) {
+      onProgress?.({ completed: b, total: batches.length });
+      const lines = batches[b].map(index => `${index}: ${transcript[index].text}`).join('\n');
+      const prompt = `Translate each numbered line of this YouTube video transcript into ${language}.
+
+RULES:
+- Translate every line separately and keep its number; do not merge, split or skip lines
+- Keep the meaning and tone; do not summarize or add explanations
+- Lines already in ${language} are returned unchanged
+
+Respond with a JSON object whose "lines" field lists every line as { "index": <line number>, "text": <translation> }.
+
+Lines:
+${lines}`;
+
+      const response = await provider.generate(prompt, { responseSchema: this.TRANSLATION_SCHEMA, signal });
+      const parsed = parsePartialJson(response) as { lines?: Array<{ index?: unknown; text?: unknown }> } | undefined;
+      for (const line of parsed?.lines || []) {
+        const index = Number(line?.index);
+        if (batches[b].includes(index) && typeof line.text === 'string' && line.text.trim()) {
+          translated[index] = line.text.trim();
+        }
+      }
     }
+    onProgress?.({ completed: batches.length, total: batches.length });
 
-    // Create prompt with length requirement, style, headline, and neutral instructions
-    const transcriptText = style === 'timestamp' ? transcriptWithTimestamps : fullText;
-    const prompt = `You are a neutral transcription summarizer. Your task is to create an objective summary of the following YouTube video transcript.
+    return transcript.map((item, index) => ({ ...item, text: translated[index] }));
+  }
 
-CRITICAL INSTRUCTIONS:
-- Provide ONLY a factual, neutral summary of what was said in the transcript
-- Do NOT add your own opinions, perspectives, analysis, or conclusions
-- Do NOT interpret, judge, or evaluate the content
-- Simply summarize what was actually said, without commentary
-- Maintain complete objectivity and neutrality
+  /**
+   * Answers a question about the transcript, taking previous turns into account.
+   * The answer cites transcript lines as [M:SS] timestamps, returned as citations.
+   */
+  async askQuestion(transcript: TranscriptItem[], history: ChatMessage[], question: string, signal?: AbortSignal): Promise<ChatMessage> {
+    if (!transcript || transcript.length === 0) {
+      throw new Error('No transcript available to answer questions about.');
+    }
 
-REQUIREMENTS:
-1. First, generate a concise headline (maximum 80 characters) that summarizes the main topic
-2. Then provide a summary that is approximately ${lengthPercentage}% of the original transcript length
-3. ${styleInstruction}
+    const context = this.selectContext(transcript, [...history.filter(m => m.role === 'user').map(m => m.content), question].join(' '));
+    const transcriptWithTimestamps = context.map(item => `[${item.startTimeText}] ${item.text}`).join('\n');
+    const conversation = history
+      .map(message => `${message.role === 'user' ? 'USER' : 'ASSISTANT'}: ${message.content}`)
+      .join('\n\n');
 
-Format your response EXACTLY as follows:
-HEADLINE: [Your headline here]
+    const prompt = `You answer questions about a YouTube video using ONLY its transcript below.
 
-SUMMARY:
-[Your summary here]
+RULES:
+- Base every statement on the transcript; if the transcript does not cover the question, say so
+- Do NOT add your own opinions or outside knowledge
+- After each statement, cite the supporting transcript line(s) with their timestamp exactly as written in the transcript, e.g. [12:34]
+- Keep answers concise
 
 Transcript:
-${transcriptText}`;
-
-    // Use streamGenerateContent endpoint for streaming
-    const streamUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-lite:streamGenerateContent?key=${geminiApiKey}`;
-    
-    const body = {
-      contents: [
-        {
-          parts: [
-            {
-              text: prompt
-            }
-          ]
-        }
-      ]
+${transcriptWithTimestamps}
+${conversation ? `\nConversation so far:\n${conversation}\n` : ''}
+USER: ${question}
+ASSISTANT:`;
+
+    const answer = (await this.getProvider().generate(prompt, { signal })).trim();
+    return {
+      role: 'assistant',
+      content: answer,
+      citations: this.extractCitations(answer, transcript)
     };
+  }
 
-    // Use fetch API for streaming with proper SSE handling
-    fetch(streamUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body)
-    }).then(async (response) => {
-      console.log('Stream response status:', response.status, response.ok);
-      
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({ error: { message: 'Failed to generate summary' } }));
-        console.error('Stream error response:', error);
-        throw new Error(error.error?.message || 'Failed to generate summary');
+  /**
+   * Picks the transcript context for a question: the whole transcript when it fits,
+   * otherwise the chunks sharing the most words with the conversation
+   */
+  private selectContext(transcript: TranscriptItem[], query: string): TranscriptItem[] {
+    const chunks = this.chunkTranscript(transcript);
+    if (chunks.length <= 1) {
+      return transcript;
+    }
+
+    const terms = new Set(query.toLowerCase().split(/\W+/).filter(term => term.length > 3));
+    const maxChunks = Math.max(1, Math.floor(this.SINGLE_PASS_TOKEN_LIMIT / this.CHUNK_TOKEN_BUDGET));
+    const scored = chunks.map((chunk, index) => {
+      const words = chunk.items.map(item => item.text).join(' ').toLowerCase().split(/\W+/);
+      const score = words.filter(word => terms.has(word)).length;
+      return { index, score };
+    });
+
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxChunks)
+      .sort((a, b) => a.index - b.index)
+      .flatMap(({ index }) => chunks[index].items);
+  }
+
+  /**
+   * Maps [M:SS] / [H:MM:SS] references in an answer to the transcript lines they point at
+   */
+  extractCitations(text: string, transcript: TranscriptItem[]): TranscriptCitation[] {
+    const citations: TranscriptCitation[] = [];
+    const seen = new Set<number>();
+    const pattern = /\[(\d{1,2}(?::\d{2}){1,2})\]/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      const index = this.findLineIndex(transcript, match[1]);
+      if (index !== -1 && !seen.has(index)) {
+        seen.add(index);
+        citations.push({
+          startTimeText: transcript[index].startTimeText,
+          startMs: parseInt(transcript[index].startMs, 10) || 0,
+          index
+        });
       }
+    }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
-      let fullText = '';
+    return citations;
+  }
 
-      if (!reader) {
-        console.log('No reader available, falling back to non-streaming');
-        // Fallback to non-streaming
-        const data = await response.json();
-        console.log('Non-streaming response:', data);
-        if (data.candidates?.[0]?.content?.parts?.[0]?.text) {
-          const result = this.parseSummaryResponse(data.candidates[0].content.parts[0].text);
-          subject.next(result);
-          subject.complete();
-        } else {
-          subject.error(new Error('Invalid response from Gemini API'));
-        }
-        return;
+  /**
+   * Matches model-provided chapter times to transcript lines. Chapters with unparseable times,
+   * times past the end of the video, or out of order are dropped; the first chapter is moved
+   * to 0:00, as YouTube requires, before later chapters are compared with it. A chapter starting
+   * less than 10 seconds after the previous one is dropped too, so the previous chapter runs on
+   * until the next chapter kept, and so are last chapters ending less than 10 seconds in.
+   */
+  resolveChapters(chapters: SummaryChapter[], transcript: TranscriptItem[]): TranscriptChapter[] {
+    if (!transcript || transcript.length === 0) {
+      return [];
+    }
+
+    const last = transcript[transcript.length - 1];
+    const videoEndMs = parseInt(last.endMs, 10) || parseInt(last.startMs, 10) || 0;
+    const resolved: TranscriptChapter[] = [];
+
+    for (const chapter of chapters) {
+      const timeText = chapter.startTime.replace(/[\[\]\s]/g, '');
+      if (!/^\d{1,2}(?::\d{2}){1,2}$/.test(timeText)) {
+        continue;
       }
 
-      console.log('Starting to read stream...');
+      const index = this.findLineIndex(transcript, timeText);
+      if (this.parseTimestamp(timeText) > videoEndMs) {
+        continue;
+      }
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) {
-          console.log('Stream done, final text length:', fullText.length);
-          break;
-        }
+      const previous = resolved[resolved.length - 1];
+      if (!previous) {
+        resolved.push({ title: chapter.title, startMs: 0, endMs: videoEndMs, startTimeText: '', index: 0 });
+        continue;
+      }
 
-        const chunk = decoder.decode(value, { stream: true });
-        buffer += chunk;
-        
-        // Try to parse complete JSON objects from buffer
-        // The response might be JSON objects separated by newlines or brackets
-        let startIndex = 0;
-        
-        // Look for complete JSON objects (they start with { and have matching braces)
-        while (startIndex < buffer.length) {
-          // Try to find the start of a JSON object
-          const objStart = buffer.indexOf('{', startIndex);
-          if (objStart === -1) break;
-          
-          // Try to find the matching closing brace
-          let braceCount = 0;
-          let objEnd = -1;
-          
-          for (let i = objStart; i < buffer.length; i++) {
-            if (buffer[i] === '{') braceCount++;
-            if (buffer[i] === '}') {
-              braceCount--;
-              if (braceCount === 0) {
-                objEnd = i + 1;
-                break;
-              }
-            }
-          }
-          
-          if (objEnd === -1) {
-            // Incomplete object, wait for more data
-            break;
-          }
-          
-          // Extract and parse the JSON object
-          try {
-            const jsonStr = buffer.substring(objStart, objEnd);
-            const data = JSON.parse(jsonStr);
-            console.log('Parsed chunk:', data);
-            
-            // Handle streaming chunks from Gemini API
-            const textParts = data.candidates?.[0]?.content?.parts;
-            if (textParts && textParts.length > 0) {
-              for (const part of textParts) {
-                if (part.text) {
-                  fullText += part.text;
-                  // Parse and emit the accumulated result
-                  const result = this.parseSummaryResponse(fullText);
-                  console.log('Emitting summary chunk, total length:', result.summary.length);
-                  subject.next(result);
-                }
-              }
-            }
-
-            // Check if finished (has finishReason)
-            if (data.candidates?.[0]?.finishReason === 'STOP') {
-              console.log('Stream finished with STOP');
-              subject.complete();
-              return;
-            }
-          } catch (e) {
-            console.error('Error parsing JSON chunk:', e, 'Chunk:', buffer.substring(objStart, Math.min(objStart + 100, buffer.length)));
-            // Move past this character and try again
-            startIndex = objStart + 1;
-            continue;
-          }
-          
-          // Remove parsed object from buffer
-          buffer = buffer.substring(objEnd);
-          startIndex = 0;
-        }
+      const startMs = index === -1 ? 0 : parseInt(transcript[index].startMs, 10) || 0;
+      if (index <= previous.index || startMs - previous.startMs < this.MIN_CHAPTER_MS) {
+        continue;
       }
 
-      // Complete the stream
-      const finalResult = this.parseSummaryResponse(fullText);
-      console.log('Completing stream, final summary:', finalResult.summary.substring(0, 100));
-      subject.complete();
-    }).catch((error) => {
-      console.error('Streaming error:', error);
-      // Fallback to non-streaming
-      this.generateSummary(transcript, lengthPercentage, style)
-        .then(result => {
-          subject.next(result);
-          subject.complete();
-        })
-        .catch(err => {
-          subject.error(err);
-        });
-    });
+      resolved.push({ title: chapter.title, startMs, endMs: videoEndMs, startTimeText: '', index });
+    }
 
-    return subject.asObservable();
+    while (resolved.length > 0 && videoEndMs - resolved[resolved.length - 1].startMs < this.MIN_CHAPTER_MS) {
+      resolved.pop();
+    }
+    for (let i = 0; i < resolved.length; i++) {
+      resolved[i].endMs = resolved[i + 1]?.startMs ?? videoEndMs;
+      resolved[i].startTimeText = this.formatTimestamp(resolved[i].startMs);
+    }
+
+    return resolved;
   }
-}
\ No newline at end of file
+
+  private parseTimestamp(timeText: string): number {
+    return timeText.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0) * 1000;
+  }
+
+  /**
+   * Finds the line whose startTimeText matches, or the last line starting at or before the time
+   */
+  private findLineIndex(transcript: TranscriptItem[], timeText: string): number {
+    const exact = transcript.findIndex(item => item.startTimeText === timeText);
+    if (exact !== -1) {
+      return exact;
+    }
+
+    const ms = this.parseTimestamp(timeText);
+    let index = -1;
+    for (let i = 0; i < transcript.length; i++) {
+      if ((parseInt(transcript[i].startMs, 10) || 0) <= ms) {
+        index = i;
+      } else {
+        break;
+      }
+    }
+    return index;
+  }
+}
@@ -0,0 +1,52 @@
+import { Storage } from './storage';
+import { BUILT_IN_TEMPLATES, SummaryTemplate, TemplateVariables, Templates } from './templates';
+
+const variables: TemplateVariables = {
+  transcript: 'hello world',
+  timestampedTranscript: '[0:00] hello world',
+  lengthPercentage: 30,
+  language: 'German'
+};
+
+function template(prompt: string): SummaryTemplate {
+  return { id: 'custom-test', name: 'Test', display: 'paragraphs', prompt };
+}
+
+describe('Templates', () => {
+  // render() does not touch storage
+  const templates = new Templates({} as Storage);
+
+  it('should fill in every placeholder', () => {
+    const prompt = templates.render(
+      template('{{length_percentage}}% in {{language}}:\n{{transcript}}\n{{timestamped_transcript}}'),
+      variables
+    );
+    expect(prompt).toBe('30% in German:\nhello world\n[0:00] hello world');
+  });
+
+  it('should accept whitespace inside placeholders', () => {
+    const prompt = templates.render(template('{{ length_percentage }}% in {{  language }}: {{ transcript }}'), variables);
+    expect(prompt).toBe('30% in German: hello world');
+  });
+
+  it('should append the timestamped transcript when the template has no transcript placeholder', () => {
+    const prompt = templates.render(template('Summarize in {{language}}.'), variables);
+    expect(prompt).toBe('Summarize in German.\n\nTranscript:\n[0:00] hello world');
+  });
+
+  it('should not append the transcript when a spaced placeholder is present', () => {
+    expect(templates.render(template('Text: {{ transcript }}'), variables)).toBe('Text: hello world');
+    expect(templates.render(template('Text: {{ timestamped_transcript }}'), variables)).toBe('Text: [0:00] hello world');
+  });
+
+  it('should insert transcripts containing $ patterns literally', () => {
+    const prompt = templates.render(template('{{transcript}}'), { ...variables, transcript: 'costs $& and $1' });
+    expect(prompt).toBe('costs $& and $1');
+  });
+
+  it('should give every built-in template a transcript placeholder', () => {
+    for (const builtIn of BUILT_IN_TEMPLATES) {
+      expect(builtIn.prompt).toMatch(/\{\{(?:timestamped_)?transcript\}\}/);
+    }
+  });
+});
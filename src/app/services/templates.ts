@@ -0,0 +1,161 @@
+import { Injectable } from '@angular/core';
+import { Storage } from './storage';
+
+export type TemplateDisplay = 'paragraphs' | 'bullets' | 'timestamps' | 'chapters';
+
+export interface SummaryTemplate {
+  id: string;
+  name: string;
+  display: TemplateDisplay; // How App renders the summary text
+  prompt: string;
+  builtIn?: boolean;
+}
+
+export interface TemplateVariables {
+  transcript: string;
+  timestampedTranscript: string;
+  lengthPercentage: number;
+  language: string;
+}
+
+export const TEMPLATE_PLACEHOLDERS: Array<{ token: string; description: string }> = [
+  { token: '{{transcript}}', description: 'Transcript text without timestamps' },
+  { token: '{{timestamped_transcript}}', description: 'Transcript with a [M:SS] timestamp on every line' },
+  { token: '{{length_percentage}}', description: 'Summary length slider value, e.g. 50' },
+  { token: '{{language}}', description: 'Language the summary should be written in' }
+];
+
+const NEUTRAL_PREAMBLE = `You are a neutral transcription summarizer. Your task is to create an objective summary of the following YouTube video transcript.
+
+CRITICAL INSTRUCTIONS:
+- Provide ONLY a factual, neutral summary of what was said in the transcript
+- Do NOT add your own opinions, perspectives, analysis, or conclusions
+- Do NOT interpret, judge, or evaluate the content
+- Simply summarize what was actually said, without commentary
+- Maintain complete objectivity and neutrality
+
+REQUIREMENTS:
+1. First, generate a concise headline (maximum 80 characters) that summarizes the main topic
+2. Then provide a summary that is approximately {{length_percentage}}% of the original transcript length
+3. Write the headline and summary in {{language}}`;
+
+export const BUILT_IN_TEMPLATES: SummaryTemplate[] = [
+  {
+    id: 'essay',
+    name: 'Essay',
+    display: 'paragraphs',
+    builtIn: true,
+    prompt: `${NEUTRAL_PREAMBLE}
+4. Format the summary as a cohesive essay with paragraphs.
+
+Transcript:
+{{transcript}}`
+  },
+  {
+    id: 'bullets',
+    name: 'Bullets',
+    display: 'bullets',
+    builtIn: true,
+    prompt: `${NEUTRAL_PREAMBLE}
+4. Format the summary as bullet points, with each main point on a new line starting with •
+
+Transcript:
+{{transcript}}`
+  },
+  {
+    id: 'timestamp',
+    name: 'Timestamp',
+    display: 'timestamps',
+    builtIn: true,
+    prompt: `${NEUTRAL_PREAMBLE}
+4. Format the summary with timestamps from the transcript. Include the timestamp in [HH:MM] format before each key point.
+
+Transcript:
+{{timestamped_transcript}}`
+  },
+  {
+    id: 'chapters',
+    name: 'Chapters',
+    display: 'chapters',
+    builtIn: true,
+    prompt: `${NEUTRAL_PREAMBLE}
+4. Divide the whole video into chapters: consecutive sections that each cover one topic, in order, from the first line of the transcript to the last
+5. Give each chapter a short descriptive title (maximum 50 characters) and the timestamp of its first transcript line, copied exactly from the transcript
+6. Make every chapter at least 10 seconds long; aim for one chapter every few minutes
+7. Format the summary as one short paragraph per chapter, starting with the chapter title
+
+Transcript:
+{{timestamped_transcript}}`
+  }
+];
+
+@Injectable({
+  providedIn: 'root',
+})
+export class Templates {
+  constructor(private storage: Storage) {}
+
+  /**
+   * Built-in templates followed by the user's own
+   */
+  getAll(): SummaryTemplate[] {
+    return [...BUILT_IN_TEMPLATES, ...this.storage.getCustomTemplates()];
+  }
+
+  /**
+   * Looks up a template by ID, falling back to the essay template
+   */
+  get(id: string): SummaryTemplate {
+    return this.getAll().find(template => template.id === id) || BUILT_IN_TEMPLATES[0];
+  }
+
+  /**
+   * Creates or updates a custom template
+   */
+  save(template: SummaryTemplate): SummaryTemplate {
+    if (BUILT_IN_TEMPLATES.some(builtIn => builtIn.id === template.id)) {
+      throw new Error('Built-in templates cannot be changed. Duplicate it instead.');
+    }
+
+    const saved: SummaryTemplate = {
+      id: template.id || `custom-${Date.now().toString(36)}`,
+      name: template.name.trim() || 'Untitled template',
+      display: template.display,
+      prompt: template.prompt
+    };
+
+    const custom = this.storage.getCustomTemplates();
+    const index = custom.findIndex(t => t.id === saved.id);
+    if (index === -1) {
+      custom.push(saved);
+    } else {
+      custom[index] = saved;
+    }
+    this.storage.setCustomTemplates(custom);
+    return saved;
+  }
+
+  delete(id: string): void {
+    this.storage.setCustomTemplates(this.storage.getCustomTemplates().filter(t => t.id !== id));
+    if (this.storage.getSummaryStyle() === id) {
+      this.storage.setSummaryStyle(BUILT_IN_TEMPLATES[0].id);
+    }
+  }
+
+  /**
+   * Fills in placeholders. Templates without a transcript placeholder get the
+   * timestamped transcript appended so the model always sees the content.
+   */
+  render(template: SummaryTemplate, variables: TemplateVariables): string {
+    let prompt = template.prompt;
+    if (!/\{\{\s*(?:timestamped_)?transcript\s*\}\}/.test(prompt)) {
+      prompt += '\n\nTranscript:\n{{timestamped_transcript}}';
+    }
+
+    return prompt
+      .replace(/\{\{\s*length_percentage\s*\}\}/g, variables.lengthPercentage.toString())
+      .replace(/\{\{\s*language\s*\}\}/g, variables.language)
+      .replace(/\{\{\s*timestamped_transcript\s*\}\}/g, () => variables.timestampedTranscript)
+      .replace(/\{\{\s*transcript\s*\}\}/g, () => variables.transcript);
+  }
+}
@@ -0,0 +1,64 @@
+import { createTranscriptItem, detectTranscriptFormat, parseTranscriptFile } from './transcript-file';
+
+describe('transcript-file', () => {
+  describe('detectTranscriptFormat', () => {
+    it('should trust the file extension first', () => {
+      expect(detectTranscriptFormat('anything', 'talk.SRT')).toBe('srt');
+      expect(detectTranscriptFormat('anything', 'talk.vtt')).toBe('vtt');
+    });
+
+    it('should recognize WebVTT and SRT content without an extension', () => {
+      expect(detectTranscriptFormat('\uFEFFWEBVTT\n\n00:01.000 --> 00:02.000\nhi')).toBe('vtt');
+      expect(detectTranscriptFormat('1\n00:00:01,000 --> 00:00:02,000\nhi')).toBe('srt');
+      expect(detectTranscriptFormat('just some text', 'notes.txt')).toBe('text');
+    });
+  });
+
+  it('should parse SRT cues with CRLF line endings, a byte order mark and multi-line text', () => {
+    const srt = '\uFEFF1\r\n00:00:01,500 --> 00:00:03,000\r\nFirst line\r\ncontinued\r\n\r\n' +
+      '2\r\n01:00:00,000 --> 01:00:02,250\r\nAn hour in\r\n';
+    expect(parseTranscriptFile(srt, 'talk.srt')).toEqual([
+      createTranscriptItem('First line continued', 1500, 3000),
+      createTranscriptItem('An hour in', 3600000, 3602250)
+    ]);
+  });
+
+  it('should skip WebVTT headers and notes and strip cue tags and entities', () => {
+    const vtt = 'WEBVTT\nKind: captions\n\nNOTE generated\n\n' +
+      'intro\n00:05.000 --> 00:07.000 align:start\n<v Speaker>Fish &amp; chips</v>\n\n' +
+      '00:07.000 --> 00:09.000\n<c.yellow>Salt</c>&nbsp;and vinegar\n';
+    expect(parseTranscriptFile(vtt, 'talk.vtt')).toEqual([
+      createTranscriptItem('Fish & chips', 5000, 7000),
+      createTranscriptItem('Salt and vinegar', 7000, 9000)
+    ]);
+  });
+
+  it('should merge repeated rolling captions into one line', () => {
+    const vtt = 'WEBVTT\n\n00:00.000 --> 00:01.000\nSame\n\n00:01.000 --> 00:02.500\nSame\n\n00:02.500 --> 00:03.000\nNext\n';
+    expect(parseTranscriptFile(vtt, 'talk.vtt')).toEqual([
+      createTranscriptItem('Same', 0, 2500),
+      createTranscriptItem('Next', 2500, 3000)
+    ]);
+  });
+
+  it('should read leading timestamps in plain text', () => {
+    const text = '[0:00] Welcome\n1:05 - Main part\n\n(1:02:03) The end';
+    const items = parseTranscriptFile(text, 'notes.txt');
+    expect(items.map(item => [item.startTimeText, item.text])).toEqual([
+      ['0:00', 'Welcome'],
+      ['1:05', 'Main part'],
+      ['1:02:03', 'The end']
+    ]);
+    expect(items[0].endMs).toBe('65000');
+  });
+
+  it('should estimate timings for untimed plain text at a speaking pace', () => {
+    const items = parseTranscriptFile('one two three four five\nsix', 'notes.txt');
+    expect(items.map(item => [item.startMs, item.endMs])).toEqual([['0', '2000'], ['2000', '3000']]);
+  });
+
+  it('should throw when the file has no transcript lines', () => {
+    expect(() => parseTranscriptFile('WEBVTT\n\nNOTE nothing here\n', 'empty.vtt')).toThrowError('No transcript lines were found in this file.');
+    expect(() => parseTranscriptFile('\n  \n', 'empty.txt')).toThrowError('No transcript lines were found in this file.');
+  });
+});
@@ -0,0 +1,154 @@
+import { TranscriptItem } from './api';
+
+export type TranscriptFileFormat = 'srt' | 'vtt' | 'text';
+
+export const TRANSCRIPT_FILE_EXTENSIONS = '.srt,.vtt,.txt,text/plain,text/vtt,application/x-subrip';
+
+// Untimed plain text is spread at a typical speaking rate so timestamps stay meaningful
+const WORDS_PER_MINUTE = 150;
+
+const CUE_TIMING = /^\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)/;
+const LINE_TIMESTAMP = /^\s*[[(]?((?:\d+:)?\d{1,2}:\d{2})[\])]?\s*[-–:]?\s+(.*)$/;
+
+/**
+ * Detects the format from the file name, then from the content
+ */
+export function detectTranscriptFormat(text: string, fileName: string = ''): TranscriptFileFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'srt' || extension === 'vtt') {
+    return extension;
+  }
+  if (/^\uFEFF?WEBVTT/.test(text)) {
+    return 'vtt';
+  }
+  return text.split(/\r?\n/).some(line => CUE_TIMING.test(line)) ? 'srt' : 'text';
+}
+
+/**
+ * Parses an SRT, WebVTT or plain text transcript into transcript lines
+ */
+export function parseTranscriptFile(text: string, fileName: string = ''): TranscriptItem[] {
+  const format = detectTranscriptFormat(text, fileName);
+  const items = format === 'text' ? parsePlainText(text) : parseCues(text);
+  if (items.length === 0) {
+    throw new Error('No transcript lines were found in this file.');
+  }
+  return items;
+}
+
+/**
+ * SRT and WebVTT share the cue layout: an optional identifier, a timing line, then text until a blank line
+ */
+function parseCues(text: string): TranscriptItem[] {
+  const items: TranscriptItem[] = [];
+  const blocks = text.replace(/^\uFEFF/, '').split(/\r?\n\s*\r?\n/);
+
+  for (const block of blocks) {
+    const lines = block.split(/\r?\n/);
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex === -1) {
+      continue; // WEBVTT header, NOTE and STYLE blocks
+    }
+
+    const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+    const cueText = cleanCueText(lines.slice(timingIndex + 1).join(' '));
+    if (!cueText) {
+      continue;
+    }
+
+    const startMs = parseCueTime(start);
+    const endMs = Math.max(startMs, parseCueTime(end));
+
+    // Rolling captions repeat the previous cue; keep the first and extend it
+    const previous = items[items.length - 1];
+    if (previous && previous.text === cueText) {
+      previous.endMs = String(endMs);
+      continue;
+    }
+    items.push(createTranscriptItem(cueText, startMs, endMs));
+  }
+
+  return items;
+}
+
+/**
+ * One line per non-empty line, using a leading timestamp such as "1:23" or "[01:02:03]" when present
+ */
+function parsePlainText(text: string): TranscriptItem[] {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).map(line => line.trim()).filter(line => line);
+  const timed = lines.map(line => {
+    const match = line.match(LINE_TIMESTAMP);
+    return match ? { text: match[2].trim(), startMs: parseCueTime(match[1]) } : { text: line, startMs: null };
+  });
+
+  const items: TranscriptItem[] = [];
+  let estimatedMs = 0;
+  for (let i = 0; i < timed.length; i++) {
+    const line = timed[i];
+    const durationMs = Math.max(1000, Math.round(countWords(line.text) / WORDS_PER_MINUTE * 60000));
+    const startMs = line.startMs ?? estimatedMs;
+    const nextStartMs = timed[i + 1]?.startMs;
+    const endMs = nextStartMs != null && nextStartMs > startMs ? nextStartMs : startMs + durationMs;
+
+    if (line.text) {
+      items.push(createTranscriptItem(line.text, startMs, endMs));
+    }
+    estimatedMs = endMs;
+  }
+
+  return items;
+}
+
+/**
+ * A transcript line with its start time formatted like the transcript API's
+ */
+export function createTranscriptItem(text: string, startMs: number, endMs: number): TranscriptItem {
+  return {
+    text,
+    startMs: String(startMs),
+    endMs: String(endMs),
+    startTimeText: formatStartTime(startMs)
+  };
+}
+
+/**
+ * Removes WebVTT voice and styling tags, inline timestamps and HTML entities
+ */
+function cleanCueText(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Milliseconds from HH:MM:SS,mmm, HH:MM:SS.mmm, MM:SS.mmm or M:SS
+ */
+function parseCueTime(value: string): number {
+  const [clock, fraction = '0'] = value.trim().split(/[.,]/);
+  const parts = clock.split(':').map(part => parseInt(part, 10) || 0);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds * 1000 + parseInt(fraction.padEnd(3, '0').substring(0, 3), 10);
+}
+
+/**
+ * M:SS or H:MM:SS, matching the transcript API
+ */
+function formatStartTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => word).length;
+}
@@ -0,0 +1,189 @@
+import { HttpClient, HttpHeaders, HttpParams } from '@angular/common/http';
+import { Observable, throwError } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { TranscriptItem, TranscriptResponse } from './api';
+import { ApiError, missingKeyError, withApiErrors } from './errors';
+import { createTranscriptItem } from './transcript-file';
+
+export type TranscriptProviderType = 'scrapecreators' | 'selfhosted' | 'json';
+
+/**
+ * Where the transcript lines are in a JSON endpoint's response. Paths are dot-separated
+ * (e.g. "data.segments"); times are numbers in timeUnit.
+ */
+export interface TranscriptFieldMapping {
+  items: string; // Path to the array of lines; empty when the response itself is the array
+  text: string;
+  start: string;
+  end: string; // Empty to compute the end from duration
+  duration: string;
+  timeUnit: 'ms' | 's';
+}
+
+export interface TranscriptProviderConfig {
+  type: TranscriptProviderType;
+  apiKey: string | null;
+  baseUrl: string;
+  fieldMapping: TranscriptFieldMapping;
+}
+
+/**
+ * A source of video transcripts used by the Api service
+ */
+export interface TranscriptProvider {
+  readonly type: TranscriptProviderType;
+  readonly label: string;
+  /** Fetches the captions of a video, in the given language when one is set */
+  fetchTranscript(videoId: string, language: string): Observable<TranscriptResponse>;
+}
+
+export const TRANSCRIPT_PROVIDER_DEFAULTS: Record<TranscriptProviderType, { label: string; baseUrl: string; requiresApiKey: boolean; usesCredits: boolean }> = {
+  scrapecreators: {
+    label: 'Scrape Creators',
+    baseUrl: 'https://api.scrapecreators.com/v1/youtube/video/transcript',
+    requiresApiKey: true,
+    usesCredits: true
+  },
+  selfhosted: {
+    label: 'Self-hosted (Scrape Creators compatible)',
+    baseUrl: 'http://localhost:8000/v1/youtube/video/transcript',
+    requiresApiKey: false,
+    usesCredits: false
+  },
+  json: {
+    label: 'JSON endpoint',
+    baseUrl: '',
+    requiresApiKey: false,
+    usesCredits: false
+  }
+};
+
+// Matches the output of the youtube-transcript-api Python package served as JSON
+export const DEFAULT_TRANSCRIPT_FIELD_MAPPING: TranscriptFieldMapping = {
+  items: '',
+  text: 'text',
+  start: 'start',
+  end: '',
+  duration: 'duration',
+  timeUnit: 's'
+};
+
+/**
+ * Scrape Creators, or a self-hosted service answering with the same request and response format
+ */
+export class ScrapeCreatorsCompatibleProvider implements TranscriptProvider {
+  readonly type: TranscriptProviderType;
+  readonly label: string;
+
+  constructor(
+    private http: HttpClient,
+    private config: TranscriptProviderConfig
+  ) {
+    this.type = config.type;
+    this.label = TRANSCRIPT_PROVIDER_DEFAULTS[config.type].label;
+  }
+
+  fetchTranscript(videoId: string, language: string): Observable<TranscriptResponse> {
+    if (TRANSCRIPT_PROVIDER_DEFAULTS[this.type].requiresApiKey && !this.config.apiKey) {
+      return throwError(() => missingKeyError(this.label));
+    }
+
+    const headers = this.config.apiKey ? new HttpHeaders({ 'x-api-key': this.config.apiKey }) : new HttpHeaders();
+
+    // Send the video as a full YouTube URL, plus the caption language if one is set
+    let params = new HttpParams().set('url', `https://www.youtube.com/watch?v=${videoId}`);
+    if (language) {
+      params = params.set('language', language);
+    }
+
+    return this.http.get<TranscriptResponse>(this.config.baseUrl, { headers, params }).pipe(
+      withApiErrors(this.label),
+      map(response => ({ ...response, videoId: response?.videoId || videoId, provider: this.type }))
+    );
+  }
+}
+
+/**
+ * Any JSON endpoint, with {videoId}, {url} and {language} placeholders in its URL and a field mapping for the lines
+ */
+export class JsonEndpointProvider implements TranscriptProvider {
+  readonly type: TranscriptProviderType = 'json';
+  readonly label = TRANSCRIPT_PROVIDER_DEFAULTS.json.label;
+
+  constructor(
+    private http: HttpClient,
+    private config: TranscriptProviderConfig
+  ) {}
+
+  fetchTranscript(videoId: string, language: string): Observable<TranscriptResponse> {
+    if (!this.config.baseUrl) {
+      return throwError(() => new ApiError('invalid-input', 'Set the JSON endpoint URL in settings.', this.label));
+    }
+
+    const watchUrl = `https://www.youtube.com/watch?v=${videoId}`;
+    const url = this.config.baseUrl
+      .replace(/\{videoId\}/g, encodeURIComponent(videoId))
+      .replace(/\{url\}/g, encodeURIComponent(watchUrl))
+      .replace(/\{language\}/g, encodeURIComponent(language));
+    const headers = this.config.apiKey ? new HttpHeaders({ 'Authorization': `Bearer ${this.config.apiKey}` }) : new HttpHeaders();
+
+    return this.http.get<unknown>(url, { headers }).pipe(
+      withApiErrors(this.label),
+      map(response => ({
+        success: true,
+        videoId,
+        type: 'json',
+        url: watchUrl,
+        transcript: mapTranscriptFields(response, this.config.fieldMapping),
+        provider: this.type
+      }))
+    );
+  }
+}
+
+/**
+ * Converts a JSON response into transcript lines using a field mapping; lines without text are dropped
+ */
+export function mapTranscriptFields(response: unknown, mapping: TranscriptFieldMapping): TranscriptItem[] {
+  const list = mapping.items ? readPath(response, mapping.items) : response;
+  if (!Array.isArray(list)) {
+    return [];
+  }
+
+  const scale = mapping.timeUnit === 's' ? 1000 : 1;
+  const toMs = (value: unknown): number | null => {
+    const number = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+    return isNaN(number) ? null : Math.round(number * scale);
+  };
+
+  const items: TranscriptItem[] = [];
+  for (const entry of list) {
+    const text = readPath(entry, mapping.text);
+    if (typeof text !== 'string' || !text.trim()) {
+      continue;
+    }
+    const startMs = toMs(readPath(entry, mapping.start)) ?? 0;
+    const endMs = mapping.end
+      ? toMs(readPath(entry, mapping.end))
+      : (mapping.duration ? startMs + (toMs(readPath(entry, mapping.duration)) ?? 0) : null);
+    items.push(createTranscriptItem(text.trim(), startMs, Math.max(startMs, endMs ?? startMs)));
+  }
+  return items;
+}
+
+/**
+ * Creates the provider implementation for a configuration
+ */
+export function createTranscriptProvider(http: HttpClient, config: TranscriptProviderConfig): TranscriptProvider {
+  if (config.type === 'json') {
+    return new JsonEndpointProvider(http, config);
+  }
+  return new ScrapeCreatorsCompatibleProvider(http, config);
+}
+
+function readPath(value: unknown, path: string): unknown {
+  return path.split('.').filter(Boolean).reduce<unknown>(
+    (current, key) => current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined,
+    value
+  );
+}
@@ -0,0 +1,22 @@
+export interface TtsVoice {
+  id: string; // Kokoro voice name, as accepted by the Together.ai audio API
+  name: string;
+}
+
+export const DEFAULT_TTS_VOICE = 'af_heart';
+
+export const TTS_VOICES: TtsVoice[] = [
+  { id: 'af_heart', name: 'Heart (American, female)' },
+  { id: 'af_bella', name: 'Bella (American, female)' },
+  { id: 'af_nicole', name: 'Nicole (American, female)' },
+  { id: 'af_sarah', name: 'Sarah (American, female)' },
+  { id: 'af_sky', name: 'Sky (American, female)' },
+  { id: 'am_adam', name: 'Adam (American, male)' },
+  { id: 'am_michael', name: 'Michael (American, male)' },
+  { id: 'bf_emma', name: 'Emma (British, female)' },
+  { id: 'bf_isabella', name: 'Isabella (British, female)' },
+  { id: 'bm_george', name: 'George (British, male)' },
+  { id: 'bm_lewis', name: 'Lewis (British, male)' }
+];
+
+export const TTS_PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
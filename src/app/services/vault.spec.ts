@@ -0,0 +1,52 @@
+import { createVaultSalt, decryptVault, deriveVaultKey, encryptVault, fromBase64, toBase64 } from './vault';
+
+// Far below the real iteration count, to keep the specs fast
+const ITERATIONS = 1000;
+
+describe('vault', () => {
+  const secrets = { scrape_creators_api_key: 'sc-key', gemini_api_key: 'gemini-key' };
+
+  it('should decrypt what it encrypted with the same passphrase', async () => {
+    const salt = createVaultSalt();
+    const vault = await encryptVault(secrets, await deriveVaultKey('correct horse', salt, ITERATIONS), salt, ITERATIONS);
+
+    expect(vault.ciphertext).not.toContain('sc-key');
+    expect(vault.iterations).toBe(ITERATIONS);
+    const key = await deriveVaultKey('correct horse', fromBase64(vault.salt), vault.iterations);
+    expect(await decryptVault(vault, key)).toEqual(secrets);
+  });
+
+  it('should reject a wrong passphrase', async () => {
+    const salt = createVaultSalt();
+    const vault = await encryptVault(secrets, await deriveVaultKey('correct horse', salt, ITERATIONS), salt, ITERATIONS);
+
+    const wrongKey = await deriveVaultKey('wrong horse', salt, ITERATIONS);
+    await expectAsync(decryptVault(vault, wrongKey)).toBeRejectedWithError('Incorrect passphrase.');
+  });
+
+  it('should reject a tampered ciphertext', async () => {
+    const salt = createVaultSalt();
+    const key = await deriveVaultKey('correct horse', salt, ITERATIONS);
+    const vault = await encryptVault(secrets, key, salt, ITERATIONS);
+
+    const bytes = fromBase64(vault.ciphertext);
+    bytes[0] ^= 1;
+    await expectAsync(decryptVault({ ...vault, ciphertext: toBase64(bytes) }, key)).toBeRejectedWithError('Incorrect passphrase.');
+  });
+
+  it('should use a fresh IV for every encryption', async () => {
+    const salt = createVaultSalt();
+    const key = await deriveVaultKey('correct horse', salt, ITERATIONS);
+    const first = await encryptVault(secrets, key, salt, ITERATIONS);
+    const second = await encryptVault(secrets, key, salt, ITERATIONS);
+
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+  });
+
+  it('should round-trip bytes through base64', () => {
+    const bytes = new Uint8Array([0, 1, 127, 128, 255]);
+    expect(toBase64(bytes)).toBe('AAF/gP8=');
+    expect(fromBase64('AAF/gP8=')).toEqual(bytes);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Encrypted API key storage: PBKDF2-SHA256 derives an AES-GCM key from the user's passphrase
+ */
+export interface EncryptedVault {
+  version: 1;
+  salt: string; // base64
+  iv: string; // base64
+  iterations: number;
+  ciphertext: string; // base64 AES-GCM output of the JSON-encoded secrets
+}
+
+export type VaultSecrets = Record<string, string>;
+
+const PBKDF2_ITERATIONS = 310000;
+
+/**
+ * Derives the AES-GCM key for a passphrase and salt
+ */
+export async function deriveVaultKey(passphrase: string, salt: Uint8Array, iterations: number = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: salt as BufferSource, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export function createVaultSalt(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(16));
+}
+
+/**
+ * Encrypts the secrets with a fresh IV
+ */
+export async function encryptVault(secrets: VaultSecrets, key: CryptoKey, salt: Uint8Array, iterations: number = PBKDF2_ITERATIONS): Promise<EncryptedVault> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: iv as BufferSource },
+    key,
+    new TextEncoder().encode(JSON.stringify(secrets))
+  );
+  return {
+    version: 1,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    iterations,
+    ciphertext: toBase64(new Uint8Array(ciphertext))
+  };
+}
+
+/**
+ * Decrypts a vault, throwing when the key does not match
+ */
+export async function decryptVault(vault: EncryptedVault, key: CryptoKey): Promise<VaultSecrets> {
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(vault.iv) as BufferSource },
+      key,
+      fromBase64(vault.ciphertext) as BufferSource
+    );
+  } catch {
+    // AES-GCM authentication fails on a wrong key
+    throw new Error('Incorrect passphrase.');
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => binary += String.fromCharCode(byte));
+  return btoa(binary);
+}
+
+export function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}